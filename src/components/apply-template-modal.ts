@@ -0,0 +1,201 @@
+/**
+ * Apply Template Modal
+ * Modal for merging the frontmatter of a template note into selected files
+ */
+
+import { Modal, App, Setting, TFile } from 'obsidian';
+import { BulkOperations } from '../utils/bulk-operations';
+import { formatPreviewValue } from '../utils/bulk-preview';
+import {
+	TEMPLATE_KEY_MODE_LABELS,
+	canAppendTemplateProperty,
+	readTemplateProperties,
+	type TemplateKeyMode,
+	type TemplateProperty,
+} from '../utils/frontmatter-template';
+import type { ConfirmOperation } from './bulk-operation-confirm';
+import { NotePickerModal } from './note-picker-modal';
+
+const MAX_PREVIEW_FILES = 20;
+
+export class ApplyTemplateModal extends Modal {
+	private files: string[];
+	private template: TFile | null = null;
+	private properties: TemplateProperty[] = [];
+	private templateSetting: Setting | null = null;
+	private keysEl: HTMLElement | null = null;
+	private previewEl: HTMLElement | null = null;
+	private previewVersion = 0;
+	private bulkOps: BulkOperations;
+	private confirmOperation?: ConfirmOperation;
+
+	constructor(app: App, files: string[], bulkOps?: BulkOperations, confirmOperation?: ConfirmOperation) {
+		super(app);
+		this.files = files;
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.confirmOperation = confirmOperation;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Apply template').setHeading();
+		contentEl.createEl('p', { text: `Merging template properties into ${this.files.length} file${this.files.length !== 1 ? 's' : ''}` });
+
+		this.templateSetting = new Setting(contentEl)
+			.setName('Template note')
+			.setDesc('Choose a note whose properties should be added to the selection.')
+			.addButton(button => {
+				button
+					.setButtonText('Choose')
+					.onClick(() => {
+						new NotePickerModal(this.app, (file) => {
+							void this.loadTemplate(file);
+						}).open();
+					});
+			});
+
+		this.keysEl = contentEl.createDiv();
+		this.previewEl = contentEl.createDiv();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const applyBtn = buttonContainer.createEl('button');
+		applyBtn.setText('Apply');
+		applyBtn.addClass('mod-cta');
+		applyBtn.addEventListener('click', () => {
+			void (async () => {
+				if (this.template && this.properties.some(property => property.mode !== 'skip')) {
+					await this.applyChanges();
+					this.close();
+				}
+			})();
+		});
+	}
+
+	/**
+	 * Read the template's properties and list them with a mode each
+	 */
+	private async loadTemplate(file: TFile): Promise<void> {
+		this.template = file;
+		this.properties = await readTemplateProperties(this.app, file);
+		this.templateSetting?.setDesc(file.path);
+		this.renderKeys();
+		await this.updatePreview();
+	}
+
+	private renderKeys(): void {
+		if (!this.keysEl) return;
+		this.keysEl.empty();
+
+		if (this.properties.length === 0) {
+			this.keysEl.createEl('p', { text: 'The template note has no properties.', cls: 'bases-cms-deletion-warning' });
+			return;
+		}
+
+		for (const property of this.properties) {
+			new Setting(this.keysEl)
+				.setName(property.key)
+				.setDesc(formatPreviewValue(property.value))
+				.addDropdown(dropdown => {
+					for (const [mode, label] of Object.entries(TEMPLATE_KEY_MODE_LABELS)) {
+						if (mode === 'append' && !canAppendTemplateProperty(property)) continue;
+						dropdown.addOption(mode, label);
+					}
+					dropdown
+						.setValue(property.mode)
+						.onChange(value => {
+							property.mode = value as TemplateKeyMode;
+							void this.updatePreview();
+						});
+				});
+		}
+	}
+
+	/**
+	 * Files the template is applied to; the template itself is left out if it is selected
+	 */
+	private getTargetFiles(): string[] {
+		return this.files.filter(path => path !== this.template?.path);
+	}
+
+	/**
+	 * Show the keys each file would gain or have updated
+	 */
+	private async updatePreview(): Promise<void> {
+		if (!this.previewEl) return;
+		const version = ++this.previewVersion;
+
+		const preview = await this.bulkOps.previewFrontmatterTemplate(this.getTargetFiles(), this.properties);
+		// A newer mode change started its own preview while this one was loading
+		if (version !== this.previewVersion) return;
+
+		this.previewEl.empty();
+		if (this.properties.length === 0) return;
+		if (preview.changed.length === 0) {
+			this.previewEl.createEl('p', { text: 'No file would change.' });
+			return;
+		}
+
+		const wrapper = this.previewEl.createDiv('bases-cms-rename-preview');
+		const table = wrapper.createEl('table', { cls: 'bases-cms-rename-preview-table' });
+		const header = table.createEl('thead').createEl('tr');
+		header.createEl('th', { text: 'File' });
+		header.createEl('th', { text: 'Adds' });
+		header.createEl('th', { text: 'Updates' });
+
+		const body = table.createEl('tbody');
+		for (const change of preview.changed.slice(0, MAX_PREVIEW_FILES)) {
+			const added = change.changes.filter(item => item.oldValue === undefined).map(item => item.key);
+			const updated = change.changes.filter(item => item.oldValue !== undefined).map(item => item.key);
+			const tr = body.createEl('tr');
+			tr.createEl('td', { text: change.path.split('/').pop() ?? change.path, attr: { title: change.path } });
+			const addedCell = tr.createEl('td', { text: added.join(', ') || '(none)' });
+			if (added.length === 0) addedCell.addClass('bases-cms-rename-preview-unchanged');
+			const updatedCell = tr.createEl('td', { text: updated.join(', ') || '(none)' });
+			if (updated.length === 0) updatedCell.addClass('bases-cms-rename-preview-unchanged');
+		}
+		if (preview.changed.length > MAX_PREVIEW_FILES) {
+			const remaining = preview.changed.length - MAX_PREVIEW_FILES;
+			body.createEl('tr').createEl('td', {
+				text: `... and ${remaining} more file${remaining !== 1 ? 's' : ''}`,
+				attr: { colspan: '3' }
+			});
+		}
+
+		if (preview.unaffected.length > 0) {
+			this.previewEl.createEl('p', {
+				text: `${preview.unaffected.length} file${preview.unaffected.length !== 1 ? 's' : ''} already match${preview.unaffected.length !== 1 ? '' : 'es'} the template.`
+			});
+		}
+	}
+
+	private async applyChanges(): Promise<void> {
+		if (!this.template) return;
+		const files = this.getTargetFiles();
+		const name = this.template.basename;
+		const properties = this.properties.map(property => ({ ...property }));
+		const run = () => this.bulkOps.applyFrontmatterTemplate(files, name, properties);
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				`apply ${name} to`,
+				() => this.bulkOps.previewFrontmatterTemplate(files, properties),
+				run
+			);
+		} else {
+			await run();
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
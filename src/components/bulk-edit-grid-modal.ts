@@ -0,0 +1,396 @@
+/**
+ * Bulk Edit Grid Modal
+ * Spreadsheet-style editor with the selected entries as rows and chosen properties as columns,
+ * with type-aware cells, fill-down and paste from a spreadsheet; all edits are written in one batch
+ */
+
+import { Modal, App, Setting, TFile, Notice, setIcon } from 'obsidian';
+import { BulkOperations } from '../utils/bulk-operations';
+import {
+	detectColumnType,
+	formatCellText,
+	getListItems,
+	isSameCellValue,
+	parseCellInput,
+	parseClipboardGrid,
+	type GridColumnType,
+} from '../utils/grid-edit';
+import { BulkOperationConfirmModal } from './bulk-operation-confirm';
+
+interface GridColumn {
+	key: string;
+	type: GridColumnType;
+}
+
+const COLUMN_TYPE_LABELS: Record<GridColumnType, string> = {
+	text: 'Text',
+	number: 'Number',
+	checkbox: 'Checkbox',
+	date: 'Date',
+	datetime: 'Date & time',
+	list: 'List',
+};
+
+export class BulkEditGridModal extends Modal {
+	private files: TFile[];
+	private bulkOps: BulkOperations;
+	private columns: GridColumn[] = [];
+	/** Frontmatter of each file when the grid was opened */
+	private original = new Map<string, Record<string, unknown>>();
+	/** Edited cells per file path; only cells that differ from the original are kept */
+	private edits = new Map<string, Record<string, unknown>>();
+	/** Cell that last had focus, used as the fill-down source and paste origin */
+	private activeCell: { row: number; col: number } | null = null;
+	private newColumnName: string = '';
+	private gridEl: HTMLElement | null = null;
+	private statusEl: HTMLElement | null = null;
+	private columnDropdownEl: HTMLSelectElement | null = null;
+
+	constructor(app: App, files: string[], bulkOps?: BulkOperations) {
+		super(app);
+		this.files = files
+			.map(filePath => app.vault.getAbstractFileByPath(filePath))
+			.filter((file): file is TFile => file instanceof TFile);
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		for (const file of this.files) {
+			const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			this.original.set(file.path, { ...(frontmatter ?? {}) });
+		}
+	}
+
+	onOpen(): void {
+		const { contentEl, modalEl } = this;
+
+		modalEl.addClass('bases-cms-grid-modal');
+		contentEl.empty();
+		new Setting(contentEl).setName('Edit in grid').setHeading();
+		contentEl.createEl('p', { text: `Editing ${this.files.length} file${this.files.length !== 1 ? 's' : ''}` });
+
+		// Columns
+		const columnSetting = new Setting(contentEl)
+			.setName('Add column')
+			.setDesc('Choose a property from the selection, or enter the name of a new one.');
+		columnSetting.addDropdown(dropdown => {
+			this.columnDropdownEl = dropdown.selectEl;
+			this.fillColumnOptions(dropdown.selectEl);
+			dropdown.onChange(value => {
+				if (!value) return;
+				this.addColumn(value);
+				dropdown.setValue('');
+			});
+		});
+		columnSetting.addText(text => {
+			text
+				.setPlaceholder('New property')
+				.onChange(value => {
+					this.newColumnName = value;
+				});
+		});
+		columnSetting.addButton(button => {
+			button
+				.setButtonText('Add')
+				.onClick(() => {
+					const name = this.newColumnName.trim().replace(/^note\./, '');
+					if (name) {
+						this.addColumn(name);
+					}
+				});
+		});
+
+		this.gridEl = contentEl.createDiv('bases-cms-grid-editor');
+		this.statusEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+		this.renderGrid();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const applyBtn = buttonContainer.createEl('button');
+		applyBtn.setText('Apply');
+		applyBtn.addClass('mod-cta');
+		applyBtn.addEventListener('click', () => {
+			void this.applyChanges();
+		});
+	}
+
+	/**
+	 * List the selection's properties that are not columns yet
+	 */
+	private fillColumnOptions(selectEl: HTMLSelectElement): void {
+		selectEl.empty();
+		selectEl.createEl('option', { text: 'Choose a property...', value: '' });
+		const keys = new Set<string>();
+		for (const frontmatter of this.original.values()) {
+			Object.keys(frontmatter).forEach(key => keys.add(key));
+		}
+		for (const key of Array.from(keys).sort()) {
+			if (this.columns.some(column => column.key === key)) continue;
+			selectEl.createEl('option', { text: key, value: key });
+		}
+	}
+
+	private addColumn(key: string): void {
+		if (this.columns.some(column => column.key === key)) return;
+		const values = this.files.map(file => this.original.get(file.path)?.[key]);
+		this.columns.push({ key, type: detectColumnType(this.app, key, values) });
+		if (this.columnDropdownEl) {
+			this.fillColumnOptions(this.columnDropdownEl);
+		}
+		this.renderGrid();
+	}
+
+	private removeColumn(index: number): void {
+		const [column] = this.columns.splice(index, 1);
+		for (const [path, fileEdits] of this.edits) {
+			delete fileEdits[column.key];
+			if (Object.keys(fileEdits).length === 0) {
+				this.edits.delete(path);
+			}
+		}
+		this.activeCell = null;
+		if (this.columnDropdownEl) {
+			this.fillColumnOptions(this.columnDropdownEl);
+		}
+		this.renderGrid();
+	}
+
+	private getCellValue(row: number, col: number): unknown {
+		const path = this.files[row].path;
+		const key = this.columns[col].key;
+		const fileEdits = this.edits.get(path);
+		if (fileEdits && key in fileEdits) return fileEdits[key];
+		return this.original.get(path)?.[key];
+	}
+
+	private isChanged(row: number, col: number): boolean {
+		const fileEdits = this.edits.get(this.files[row].path);
+		return fileEdits !== undefined && this.columns[col].key in fileEdits;
+	}
+
+	/**
+	 * Record a cell value, dropping the edit when it matches the original again
+	 */
+	private setCellValue(row: number, col: number, value: unknown): void {
+		const path = this.files[row].path;
+		const key = this.columns[col].key;
+		const fileEdits = this.edits.get(path) ?? {};
+		if (isSameCellValue(this.original.get(path)?.[key], value)) {
+			delete fileEdits[key];
+		} else {
+			fileEdits[key] = value;
+		}
+		if (Object.keys(fileEdits).length > 0) {
+			this.edits.set(path, fileEdits);
+		} else {
+			this.edits.delete(path);
+		}
+		this.updateStatus();
+	}
+
+	private countChangedCells(): number {
+		let count = 0;
+		for (const fileEdits of this.edits.values()) {
+			count += Object.keys(fileEdits).length;
+		}
+		return count;
+	}
+
+	private updateStatus(): void {
+		if (!this.statusEl) return;
+		const cells = this.countChangedCells();
+		const files = this.edits.size;
+		this.statusEl.setText(cells > 0
+			? `${cells} changed cell${cells !== 1 ? 's' : ''} in ${files} file${files !== 1 ? 's' : ''}`
+			: 'No changes yet. Paste from a spreadsheet into any cell to fill several cells at once.');
+	}
+
+	private renderGrid(): void {
+		if (!this.gridEl) return;
+		this.gridEl.empty();
+		this.updateStatus();
+
+		if (this.columns.length === 0) {
+			this.gridEl.createEl('p', { text: 'Add a column to start editing.', cls: 'setting-item-description' });
+			return;
+		}
+
+		const table = this.gridEl.createEl('table', { cls: 'bases-cms-grid-table' });
+		const header = table.createEl('thead').createEl('tr');
+		header.createEl('th', { text: 'File' });
+		this.columns.forEach((column, col) => {
+			const th = header.createEl('th');
+			const titleEl = th.createDiv('bases-cms-grid-column-title');
+			titleEl.createSpan({ text: column.key });
+			titleEl.createSpan({ text: COLUMN_TYPE_LABELS[column.type], cls: 'bases-cms-grid-column-type' });
+
+			const actionsEl = th.createDiv('bases-cms-grid-column-actions');
+			const fillBtn = actionsEl.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': 'Fill down from the selected cell' } });
+			setIcon(fillBtn, 'arrow-down-to-line');
+			fillBtn.addEventListener('click', () => this.fillDown(col));
+			const removeBtn = actionsEl.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': 'Remove column' } });
+			setIcon(removeBtn, 'x');
+			removeBtn.addEventListener('click', () => this.removeColumn(col));
+		});
+
+		const body = table.createEl('tbody');
+		this.files.forEach((file, row) => {
+			const tr = body.createEl('tr');
+			tr.createEl('td', { text: file.basename, cls: 'bases-cms-grid-file', attr: { title: file.path } });
+			this.columns.forEach((_, col) => {
+				this.renderCell(tr.createEl('td'), row, col);
+			});
+		});
+	}
+
+	private renderCell(td: HTMLElement, row: number, col: number): void {
+		td.empty();
+		td.toggleClass('is-changed', this.isChanged(row, col));
+		const column = this.columns[col];
+		const value = this.getCellValue(row, col);
+
+		const commit = (newValue: unknown) => {
+			this.setCellValue(row, col, newValue);
+			td.toggleClass('is-changed', this.isChanged(row, col));
+		};
+		const track = (el: HTMLElement) => {
+			el.addEventListener('focus', () => {
+				this.activeCell = { row, col };
+			});
+			el.addEventListener('paste', (event: ClipboardEvent) => this.handlePaste(event, row, col));
+		};
+
+		switch (column.type) {
+			case 'checkbox': {
+				const input = td.createEl('input', { type: 'checkbox' });
+				input.checked = value === true;
+				input.addEventListener('change', () => commit(input.checked));
+				track(input);
+				break;
+			}
+			case 'list': {
+				const chipsEl = td.createDiv('bases-cms-grid-chips');
+				const items = getListItems(value);
+				items.forEach((item, index) => {
+					const chip = chipsEl.createSpan({ cls: 'bases-cms-grid-chip', text: item });
+					const removeEl = chip.createSpan({ cls: 'bases-cms-grid-chip-remove', attr: { 'aria-label': 'Remove item' } });
+					setIcon(removeEl, 'x');
+					removeEl.addEventListener('click', () => {
+						commit(items.filter((_, i) => i !== index));
+						this.renderCell(td, row, col);
+					});
+				});
+				const input = chipsEl.createEl('input', { type: 'text', cls: 'bases-cms-grid-chip-input', attr: { placeholder: 'Add item' } });
+				const addPending = () => {
+					const added = input.value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+					if (added.length === 0) return;
+					commit([...items, ...added.filter(item => !items.includes(item))]);
+					this.renderCell(td, row, col);
+				};
+				input.addEventListener('keydown', (event: KeyboardEvent) => {
+					if (event.key === 'Enter' || event.key === ',') {
+						event.preventDefault();
+						addPending();
+					} else if (event.key === 'Backspace' && input.value === '' && items.length > 0) {
+						commit(items.slice(0, -1));
+						this.renderCell(td, row, col);
+					}
+				});
+				input.addEventListener('blur', addPending);
+				track(input);
+				break;
+			}
+			default: {
+				const inputType = column.type === 'number' ? 'number'
+					: column.type === 'date' ? 'date'
+						: column.type === 'datetime' ? 'datetime-local'
+							: 'text';
+				const input = td.createEl('input', { type: inputType });
+				const text = formatCellText(value, column.type);
+				input.value = column.type === 'datetime' ? text.substring(0, 16) : text;
+				input.addEventListener('change', () => {
+					const parsed = parseCellInput(input.value, column.type);
+					if (!parsed) {
+						new Notice(`"${input.value}" is not a valid ${COLUMN_TYPE_LABELS[column.type].toLowerCase()} value`);
+						this.renderCell(td, row, col);
+						return;
+					}
+					commit(parsed.value);
+				});
+				track(input);
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Copy the value of the selected cell (or the first row) to every row below it
+	 */
+	private fillDown(col: number): void {
+		const source = this.activeCell?.col === col ? this.activeCell.row : 0;
+		const value = this.getCellValue(source, col);
+		for (let row = source + 1; row < this.files.length; row++) {
+			this.setCellValue(row, col, Array.isArray(value) ? [...(value as unknown[])] : value);
+		}
+		this.renderGrid();
+	}
+
+	/**
+	 * Spread a block copied from a spreadsheet over the grid, starting at the pasted cell
+	 * A single value is pasted into the cell as usual
+	 */
+	private handlePaste(event: ClipboardEvent, row: number, col: number): void {
+		const text = event.clipboardData?.getData('text/plain') ?? '';
+		const block = parseClipboardGrid(text);
+		if (block.length <= 1 && (block[0]?.length ?? 0) <= 1) return;
+		event.preventDefault();
+
+		let skipped = 0;
+		block.forEach((cells, rowOffset) => {
+			const targetRow = row + rowOffset;
+			if (targetRow >= this.files.length) return;
+			cells.forEach((cellText, colOffset) => {
+				const targetCol = col + colOffset;
+				if (targetCol >= this.columns.length) return;
+				const parsed = parseCellInput(cellText, this.columns[targetCol].type);
+				if (parsed) {
+					this.setCellValue(targetRow, targetCol, parsed.value);
+				} else {
+					skipped++;
+				}
+			});
+		});
+
+		this.renderGrid();
+		if (skipped > 0) {
+			new Notice(`Skipped ${skipped} cell${skipped !== 1 ? 's' : ''} that did not match the column type`);
+		}
+	}
+
+	/**
+	 * Preview every changed cell and write them all once confirmed
+	 */
+	private async applyChanges(): Promise<void> {
+		if (this.edits.size === 0) {
+			new Notice('No changes to apply');
+			return;
+		}
+
+		const edits = new Map(this.edits);
+		const preview = await this.bulkOps.previewGridEdits(edits);
+		new BulkOperationConfirmModal(this.app, 'update', preview, () => {
+			void (async () => {
+				await this.bulkOps.applyGridEdits(edits);
+				this.close();
+			})();
+		}).open();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
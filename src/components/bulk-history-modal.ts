@@ -0,0 +1,84 @@
+/**
+ * Bulk History Modal
+ * Lists recorded bulk operations and lets the user undo or redo back to any of them
+ */
+
+import { Modal, App, Setting } from 'obsidian';
+import type { BulkJournal, JournalEntry } from '../utils/bulk-journal';
+
+export class BulkHistoryModal extends Modal {
+	private journal: BulkJournal;
+	private onChange: () => void;
+
+	constructor(app: App, journal: BulkJournal, onChange: () => void) {
+		super(app);
+		this.journal = journal;
+		this.onChange = onChange;
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Bulk operation history').setHeading();
+
+		const undoHistory = this.journal.getUndoHistory();
+		const redoHistory = this.journal.getRedoHistory();
+
+		if (undoHistory.length === 0 && redoHistory.length === 0) {
+			contentEl.createEl('p', { text: 'No bulk operations recorded yet.' });
+			return;
+		}
+
+		if (undoHistory.length > 0) {
+			contentEl.createEl('h3', { text: 'Undo' });
+			for (const entry of undoHistory) {
+				this.renderEntry(contentEl, entry, 'Undo to here', async () => {
+					await this.journal.undoTo(entry.id);
+				});
+			}
+		}
+
+		if (redoHistory.length > 0) {
+			contentEl.createEl('h3', { text: 'Redo' });
+			for (const entry of redoHistory) {
+				this.renderEntry(contentEl, entry, 'Redo to here', async () => {
+					await this.journal.redoTo(entry.id);
+				});
+			}
+		}
+	}
+
+	private renderEntry(
+		container: HTMLElement,
+		entry: JournalEntry,
+		buttonText: string,
+		action: () => Promise<void>
+	): void {
+		const time = new Date(entry.timestamp).toLocaleTimeString();
+		const count = entry.files.length + entry.folders.length;
+		new Setting(container)
+			.setName(entry.label)
+			.setDesc(`${time} · ${count} item${count !== 1 ? 's' : ''}`)
+			.addButton(button => {
+				button
+					.setButtonText(buttonText)
+					.onClick(() => {
+						void (async () => {
+							await action();
+							this.onChange();
+							this.render();
+						})();
+					});
+			});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
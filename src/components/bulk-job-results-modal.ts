@@ -0,0 +1,61 @@
+/**
+ * Bulk Job Results Modal
+ * Lists the files a bulk job could not process, with their errors, and offers to retry them
+ */
+
+import { Modal, App, Setting } from 'obsidian';
+import type { BulkJobResult } from '../utils/bulk-job-runner';
+
+export class BulkJobResultsModal extends Modal {
+	private result: BulkJobResult;
+	private onRetry: () => void;
+
+	constructor(app: App, result: BulkJobResult, onRetry: () => void) {
+		super(app);
+		this.result = result;
+		this.onRetry = onRetry;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Bulk operation results').setHeading();
+
+		const { label, total, succeeded, failed, cancelled } = this.result;
+		let summary = `${label}: ${succeeded.length} of ${total} succeeded, ${failed.length} failed`;
+		if (cancelled.length > 0) {
+			summary += `, ${cancelled.length} not processed (cancelled)`;
+		}
+		contentEl.createEl('p', { text: `${summary}.` });
+
+		contentEl.createEl('h3', { text: `Failed (${failed.length})` });
+		const failedList = contentEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
+		for (const item of failed) {
+			const li = failedList.createEl('li');
+			li.createDiv({ text: item.path });
+			li.createDiv({ text: item.error, cls: 'bases-cms-job-error' });
+		}
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const closeBtn = buttonContainer.createEl('button');
+		closeBtn.setText('Close');
+		closeBtn.addEventListener('click', () => this.close());
+
+		const retryBtn = buttonContainer.createEl('button');
+		retryBtn.setText('Retry failed');
+		retryBtn.addClass('mod-cta');
+		retryBtn.addEventListener('click', () => {
+			this.close();
+			this.onRetry();
+		});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
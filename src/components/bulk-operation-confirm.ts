@@ -1,24 +1,38 @@
 /**
  * Bulk Operation Confirmation Modal
- * Shows confirmation dialog before performing bulk operations
+ * Shows confirmation dialog before performing bulk operations,
+ * with a per-file preview of the frontmatter changes and renames
  */
 
 import { Modal, App, Setting } from 'obsidian';
+import { formatPreviewValue, type BulkChangePreview, type FileChangePreview } from '../utils/bulk-preview';
+
+/** Maximum number of files listed in each section of the preview */
+const MAX_PREVIEW_FILES = 20;
+
+/**
+ * Runs a bulk operation, asking for confirmation with a change preview first when enabled
+ */
+export type ConfirmOperation = (
+	operationName: string,
+	buildPreview: () => Promise<BulkChangePreview>,
+	run: () => Promise<void>
+) => Promise<void>;
 
 export class BulkOperationConfirmModal extends Modal {
-	private files: string[];
-	private operation: 'draft' | 'publish';
+	private operationName: string;
+	private preview: BulkChangePreview;
 	private onConfirm: () => void;
 
 	constructor(
 		app: App,
-		files: string[],
-		operation: 'draft' | 'publish',
+		operationName: string,
+		preview: BulkChangePreview,
 		onConfirm: () => void
 	) {
 		super(app);
-		this.files = files;
-		this.operation = operation;
+		this.operationName = operationName;
+		this.preview = preview;
 		this.onConfirm = onConfirm;
 	}
 
@@ -27,24 +41,41 @@ export class BulkOperationConfirmModal extends Modal {
 
 		contentEl.empty();
 
-		const operationName = this.operation === 'draft' ? 'mark as draft' : 'mark as published';
-		const headingText = operationName.charAt(0).toUpperCase() + operationName.slice(1);
-		new Setting(contentEl).setName(`Confirm ${headingText}`).setHeading();
+		new Setting(contentEl).setName('Confirm bulk operation').setHeading();
+
+		const changedCount = this.preview.changed.length;
+		const unaffectedCount = this.preview.unaffected.length;
 
 		contentEl.createEl('p', {
-			text: `Are you sure you want to ${operationName} ${this.files.length} file${this.files.length !== 1 ? 's' : ''}?`
+			text: changedCount > 0
+				? `Are you sure you want to ${this.operationName} ${changedCount} file${changedCount !== 1 ? 's' : ''}?`
+				: 'None of the selected files would change.'
 		});
 
-		// Show file list (limited to 20)
-		if (this.files.length > 0) {
-			const filesList = contentEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
-			for (const filePath of this.files.slice(0, 20)) {
-				const li = filesList.createEl('li');
-				li.setText(filePath);
+		// Files that will change, with their property diffs and renames
+		if (changedCount > 0) {
+			contentEl.createEl('h3', { text: `Changes (${changedCount})` });
+			const changesEl = contentEl.createDiv('bases-cms-change-preview');
+			for (const file of this.preview.changed.slice(0, MAX_PREVIEW_FILES)) {
+				this.renderFileChanges(changesEl, file);
+			}
+			if (changedCount > MAX_PREVIEW_FILES) {
+				changesEl.createEl('p', {
+					text: `... and ${changedCount - MAX_PREVIEW_FILES} more file${changedCount - MAX_PREVIEW_FILES !== 1 ? 's' : ''}`
+				});
+			}
+		}
+
+		// Files that would be left untouched
+		if (unaffectedCount > 0) {
+			contentEl.createEl('h3', { text: `Unaffected (${unaffectedCount})` });
+			const unaffectedList = contentEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
+			for (const filePath of this.preview.unaffected.slice(0, MAX_PREVIEW_FILES)) {
+				unaffectedList.createEl('li', { text: filePath });
 			}
-			if (this.files.length > 20) {
-				filesList.createEl('li', {
-					text: `... and ${this.files.length - 20} more file${this.files.length - 20 !== 1 ? 's' : ''}`
+			if (unaffectedCount > MAX_PREVIEW_FILES) {
+				unaffectedList.createEl('li', {
+					text: `... and ${unaffectedCount - MAX_PREVIEW_FILES} more file${unaffectedCount - MAX_PREVIEW_FILES !== 1 ? 's' : ''}`
 				});
 			}
 		}
@@ -60,16 +91,38 @@ export class BulkOperationConfirmModal extends Modal {
 		const confirmBtn = buttonContainer.createEl('button');
 		confirmBtn.setText('Confirm');
 		confirmBtn.addClass('mod-cta');
+		confirmBtn.disabled = changedCount === 0;
 		confirmBtn.addEventListener('click', () => {
 			this.onConfirm();
 			this.close();
 		});
 	}
 
+	private renderFileChanges(container: HTMLElement, file: FileChangePreview): void {
+		const fileEl = container.createDiv('bases-cms-change-preview-file');
+		fileEl.createDiv({ cls: 'bases-cms-change-preview-path', text: file.path });
+
+		if (file.newPath) {
+			fileEl.createDiv({ cls: 'bases-cms-change-preview-rename', text: `Renamed to ${file.newPath}` });
+		}
+
+		if (file.changes.length > 0) {
+			const list = fileEl.createEl('ul', { cls: 'bases-cms-change-preview-list' });
+			for (const change of file.changes) {
+				const li = list.createEl('li');
+				li.createSpan({ cls: 'bases-cms-change-preview-key', text: `${change.key}: ` });
+				li.createSpan({ cls: 'bases-cms-change-preview-old', text: formatPreviewValue(change.oldValue) });
+				li.appendText(' → ');
+				li.createSpan({
+					cls: 'bases-cms-change-preview-new',
+					text: change.removed ? '(removed)' : formatPreviewValue(change.newValue)
+				});
+			}
+		}
+	}
+
 	onClose(): void {
 		const { contentEl } = this;
 		contentEl.empty();
 	}
 }
-
-
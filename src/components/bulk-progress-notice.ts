@@ -0,0 +1,58 @@
+/**
+ * Bulk Progress Notice
+ * Persistent notice showing the progress of a running bulk job, with a cancel button
+ */
+
+import { Notice } from 'obsidian';
+import { setCssProps } from '../utils/css-props';
+
+export class BulkProgressNotice {
+	private notice: Notice;
+	private barEl: HTMLElement;
+	private countEl: HTMLElement;
+	private currentEl: HTMLElement;
+	private cancelled = false;
+
+	constructor(label: string, private total: number) {
+		this.notice = new Notice('', 0);
+		const el = this.notice.messageEl;
+		el.empty();
+		el.addClass('bases-cms-progress-notice');
+
+		const header = el.createDiv('bases-cms-progress-header');
+		header.createSpan({ text: label, cls: 'bases-cms-progress-label' });
+		this.countEl = header.createSpan({ cls: 'bases-cms-progress-count' });
+
+		const track = el.createDiv('bases-cms-progress-track');
+		this.barEl = track.createDiv('bases-cms-progress-bar');
+		this.currentEl = el.createDiv('bases-cms-progress-current');
+
+		const cancelBtn = el.createEl('button', { text: 'Cancel' });
+		cancelBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.cancelled = true;
+			cancelBtn.disabled = true;
+			cancelBtn.setText('Cancelling...');
+		});
+
+		this.update(0, '');
+	}
+
+	/**
+	 * Show how many items are done and which one is being processed
+	 */
+	update(done: number, currentPath: string): void {
+		const percent = this.total > 0 ? Math.round((done / this.total) * 100) : 100;
+		setCssProps(this.barEl, { '--bases-cms-progress': `${percent}%` });
+		this.countEl.setText(`${done} / ${this.total}`);
+		this.currentEl.setText(currentPath);
+	}
+
+	isCancelled(): boolean {
+		return this.cancelled;
+	}
+
+	hide(): void {
+		this.notice.hide();
+	}
+}
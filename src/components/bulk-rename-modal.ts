@@ -0,0 +1,194 @@
+/**
+ * Bulk Rename Modal
+ * Modal for renaming selected files from a token pattern with a live preview
+ */
+
+import { Modal, App, Setting } from 'obsidian';
+import { BulkOperations } from '../utils/bulk-operations';
+import { planBulkRename, isEffectiveRename, type RenamePatternOptions } from '../utils/rename-pattern';
+import type { BasesCMSSettings } from '../types';
+import type { CMSSettings } from '../shared/data-transform';
+import type { ConfirmOperation } from './bulk-operation-confirm';
+
+/** Maximum number of rows rendered in the live preview */
+const MAX_PREVIEW_ROWS = 50;
+
+export class BulkRenameModal extends Modal {
+	private files: string[];
+	private config: BasesCMSSettings;
+	private settings?: CMSSettings;
+	private options: RenamePatternOptions = {
+		pattern: '{slug}',
+		counterStart: 1,
+		renameFolders: true,
+	};
+	private previewEl: HTMLElement | null = null;
+	private applyBtn: HTMLButtonElement | null = null;
+	private bulkOps: BulkOperations;
+	private confirmOperation?: ConfirmOperation;
+	private onRenamed?: () => void;
+
+	constructor(
+		app: App,
+		files: string[],
+		config: BasesCMSSettings,
+		settings?: CMSSettings,
+		bulkOps?: BulkOperations,
+		confirmOperation?: ConfirmOperation,
+		onRenamed?: () => void
+	) {
+		super(app);
+		this.files = files;
+		this.config = config;
+		this.settings = settings;
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.confirmOperation = confirmOperation;
+		this.onRenamed = onRenamed;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Rename files').setHeading();
+		contentEl.createEl('p', { text: `Renaming ${this.files.length} file${this.files.length !== 1 ? 's' : ''}` });
+
+		// Pattern
+		new Setting(contentEl)
+			.setName('Pattern')
+			.setDesc('Tokens: {title}, {slug}, {basename}, {date:YYYY-MM-DD}, {counter}, {counter:3} and {property} for any property.')
+			.addText(text => {
+				text
+					.setValue(this.options.pattern)
+					.onChange(value => {
+						this.options.pattern = value;
+						this.updatePreview();
+					});
+				text.inputEl.addClass('bases-cms-rename-pattern-input');
+			});
+
+		// Counter start
+		new Setting(contentEl)
+			.setName('Counter start')
+			.setDesc('Number used for the first file.')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text
+					.setValue(String(this.options.counterStart))
+					.onChange(value => {
+						const parsed = parseInt(value, 10);
+						this.options.counterStart = isNaN(parsed) ? 1 : parsed;
+						this.updatePreview();
+					});
+			});
+
+		// Folder-based content
+		new Setting(contentEl)
+			.setName('Rename folders for folder-based content')
+			.setDesc(`Rename the parent folder instead of the file when the file is named "${this.config.deleteParentFolderFilename || 'index'}".`)
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.options.renameFolders)
+					.onChange(value => {
+						this.options.renameFolders = value;
+						this.updatePreview();
+					});
+			});
+
+		this.previewEl = contentEl.createDiv();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		this.applyBtn = buttonContainer.createEl('button');
+		this.applyBtn.setText('Rename');
+		this.applyBtn.addClass('mod-cta');
+		this.applyBtn.addEventListener('click', () => {
+			void (async () => {
+				await this.applyChanges();
+				this.close();
+			})();
+		});
+
+		this.updatePreview();
+	}
+
+	/**
+	 * Render the old → new table and report collisions
+	 */
+	private updatePreview(): void {
+		if (!this.previewEl) return;
+		this.previewEl.empty();
+
+		const plan = planBulkRename(this.app, this.files, this.options, this.config, this.settings);
+		const errors = plan.filter(item => item.error);
+		const renames = plan.filter(item => isEffectiveRename(item));
+
+		if (this.applyBtn) {
+			this.applyBtn.disabled = renames.length === 0;
+		}
+
+		if (errors.length > 0) {
+			this.previewEl.createEl('p', {
+				text: `${errors.length} file${errors.length !== 1 ? 's' : ''} cannot be renamed and will be skipped.`,
+				cls: 'bases-cms-deletion-warning'
+			});
+		}
+
+		const wrapper = this.previewEl.createDiv('bases-cms-rename-preview');
+		const table = wrapper.createEl('table', { cls: 'bases-cms-rename-preview-table' });
+		const header = table.createEl('thead').createEl('tr');
+		header.createEl('th', { text: 'Current name' });
+		header.createEl('th', { text: 'New name' });
+
+		const body = table.createEl('tbody');
+		for (const item of plan.slice(0, MAX_PREVIEW_ROWS)) {
+			const row = body.createEl('tr');
+			row.createEl('td', { text: item.oldName });
+			const newCell = row.createEl('td');
+			if (item.error) {
+				newCell.createDiv({ text: item.newName || '(empty)' });
+				newCell.createDiv({ text: item.error, cls: 'bases-cms-rename-preview-error' });
+			} else if (!isEffectiveRename(item)) {
+				newCell.setText('(unchanged)');
+				newCell.addClass('bases-cms-rename-preview-unchanged');
+			} else {
+				newCell.setText(item.newName);
+			}
+		}
+		if (plan.length > MAX_PREVIEW_ROWS) {
+			const row = body.createEl('tr');
+			row.createEl('td', {
+				text: `... and ${plan.length - MAX_PREVIEW_ROWS} more file${plan.length - MAX_PREVIEW_ROWS !== 1 ? 's' : ''}`,
+				attr: { colspan: '2' }
+			});
+		}
+	}
+
+	private async applyChanges(): Promise<void> {
+		const options = { ...this.options };
+		const run = async () => {
+			await this.bulkOps.renameFiles(this.files, options, this.config, this.settings);
+			this.onRenamed?.();
+		};
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				'rename',
+				() => this.bulkOps.previewRenameFiles(this.files, options, this.config, this.settings),
+				run
+			);
+		} else {
+			await run();
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
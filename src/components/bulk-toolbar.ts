@@ -7,6 +7,8 @@ import { App, setIcon } from 'obsidian';
 import type BasesCMSPlugin from '../main';
 import type { CMSSettings } from '../shared/data-transform';
 import { ToolbarActions } from '../utils/toolbar-actions';
+import type { CopyEntry } from '../utils/copy-formats';
+import type { SelectionSnapshot } from '../utils/selection-snapshot';
 
 export class BulkToolbar {
 	private toolbarEl: HTMLElement | null = null;
@@ -25,7 +27,11 @@ export class BulkToolbar {
 		private clearSelection: () => void,
 		private refreshView: () => void,
 		selectAllCallback?: () => void,
-		settings?: CMSSettings
+		settings?: CMSSettings,
+		getBaseFiles?: () => string[],
+		getCopyEntries?: (properties: string[]) => CopyEntry[],
+		selectionSnapshot?: SelectionSnapshot,
+		getSelectionInViewOrder?: () => string[]
 	) {
 		this.selectAllCallback = selectAllCallback;
 		this.settings = settings;
@@ -35,7 +41,11 @@ export class BulkToolbar {
 			this.getSelectedFiles,
 			this.clearSelection,
 			this.refreshView,
-			() => this.show()
+			() => this.show(),
+			getBaseFiles,
+			getCopyEntries,
+			selectionSnapshot,
+			getSelectionInViewOrder
 		);
 		this.createToolbar();
 	}
@@ -201,12 +211,27 @@ export class BulkToolbar {
 
 		// Right side: Tags
 		if (this.plugin.settings.showToolbarTags) {
-			createBasesButton('tags', 'Tags', () => this.actions.handleManageTags(), rightContainer);
+			createBasesButton('tags', 'Tags', () => this.actions.handleManageTags(this.settings), rightContainer);
 		}
 
 		// Right side: Set
 		if (this.plugin.settings.showToolbarSet) {
-			createBasesButton('list-check', 'Set', () => this.actions.handleSetProperty(), rightContainer);
+			createBasesButton('list-check', 'Set', () => this.actions.handleSetProperty(this.settings), rightContainer);
+		}
+
+		// Right side: Template
+		if (this.plugin.settings.showToolbarTemplate) {
+			createBasesButton('stamp', 'Template', () => this.actions.handleApplyTemplate(), rightContainer);
+		}
+
+		// Right side: Dates
+		if (this.plugin.settings.showToolbarDates) {
+			createBasesButton('calendar-clock', 'Dates', () => this.actions.handleEditDates(this.settings), rightContainer);
+		}
+
+		// Right side: Grid
+		if (this.plugin.settings.showToolbarGrid) {
+			createBasesButton('table', 'Grid', () => this.actions.handleEditGrid(), rightContainer);
 		}
 
 		// Right side: Remove
@@ -214,6 +239,80 @@ export class BulkToolbar {
 			createBasesButton('list-x', 'Remove', () => this.actions.handleRemoveProperty(), rightContainer);
 		}
 
+		// Right side: Rename
+		if (this.plugin.settings.showToolbarRenameProperty) {
+			createBasesButton('text-cursor-input', 'Rename', () => this.actions.handleRenameProperty(), rightContainer);
+		}
+
+		// Right side: Convert
+		if (this.plugin.settings.showToolbarConvert) {
+			createBasesButton('arrow-right-left', 'Convert', () => this.actions.handleConvertProperty(), rightContainer);
+		}
+
+		// Right side: Replace
+		if (this.plugin.settings.showToolbarReplace) {
+			createBasesButton('replace', 'Replace', () => this.actions.handleReplaceValues(), rightContainer);
+		}
+
+		// Right side: Replace text
+		if (this.plugin.settings.showToolbarReplaceBody) {
+			createBasesButton('text-search', 'Replace text', () => this.actions.handleReplaceBody(), rightContainer);
+		}
+
+		// Right side: Normalize
+		if (this.plugin.settings.showToolbarNormalize) {
+			createBasesButton('sparkles', 'Normalize', () => { void this.actions.handleNormalize(this.settings); }, rightContainer);
+		}
+
+		// Right side: Move
+		if (this.plugin.settings.showToolbarMove) {
+			createBasesButton('folder-input', 'Move', () => this.actions.handleMove(), rightContainer);
+		}
+
+		// Right side: Rename files
+		if (this.plugin.settings.showToolbarRenameFiles) {
+			createBasesButton('file-pen-line', 'Rename files', () => this.actions.handleRenameFiles(this.settings), rightContainer);
+		}
+
+		// Right side: Duplicate
+		if (this.plugin.settings.showToolbarDuplicate) {
+			createBasesButton('copy-plus', 'Duplicate', () => { void this.actions.handleDuplicate(this.settings); }, rightContainer);
+		}
+
+		// Right side: Copy as
+		if (this.plugin.settings.showToolbarCopyAs) {
+			createBasesButton('clipboard-copy', 'Copy as', () => this.actions.handleCopyAs(this.settings), rightContainer);
+		}
+
+		// Right side: Export
+		if (this.plugin.settings.showToolbarExport) {
+			createBasesButton('package', 'Export', () => this.actions.handleExport(), rightContainer);
+		}
+
+		// Right side: Archive
+		if (this.plugin.settings.showToolbarArchive) {
+			createBasesButton('archive', 'Archive', () => { void this.actions.handleArchive(this.settings); }, rightContainer);
+		}
+
+		// Right side: Unarchive
+		if (this.plugin.settings.showToolbarUnarchive) {
+			createBasesButton('archive-restore', 'Unarchive', () => { void this.actions.handleUnarchive(this.settings); }, rightContainer);
+		}
+
+		// Right side: Macros
+		for (const macro of this.plugin.settings.macros) {
+			createBasesButton(macro.icon || 'zap', macro.name, () => {
+				void this.actions.handleRunMacro(macro, this.settings);
+			}, rightContainer);
+		}
+
+		// Right side: Undo
+		if (this.plugin.settings.showToolbarUndo) {
+			createBasesButton('undo-2', 'Undo', () => {
+				void this.actions.handleUndo();
+			}, rightContainer);
+		}
+
 		// Right side: Delete
 		if (this.plugin.settings.showToolbarDelete) {
 			createBasesButton('trash-2', 'Delete', () => {
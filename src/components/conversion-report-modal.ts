@@ -0,0 +1,64 @@
+/**
+ * Conversion Report Modal
+ * Shows which files had a property converted and which values could not be parsed
+ */
+
+import { Modal, App, Setting } from 'obsidian';
+import { formatPreviewValue } from '../utils/bulk-preview';
+import type { ConversionReport } from '../utils/property-conversion';
+
+export class ConversionReportModal extends Modal {
+	private property: string;
+	private report: ConversionReport;
+
+	constructor(app: App, property: string, report: ConversionReport) {
+		super(app);
+		this.property = property;
+		this.report = report;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Conversion report').setHeading();
+
+		const { converted, failed, unchanged } = this.report;
+		contentEl.createEl('p', {
+			text: `${this.property}: ${converted.length} converted, ${failed.length} failed, ${unchanged.length} unchanged.`
+		});
+
+		if (failed.length > 0) {
+			contentEl.createEl('h3', { text: `Failed (${failed.length})` });
+			contentEl.createEl('p', { text: 'These values were left as they were.', cls: 'bases-cms-deletion-warning' });
+			const failedList = contentEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
+			for (const item of failed) {
+				failedList.createEl('li', { text: `${item.path}: ${item.reason}` });
+			}
+		}
+
+		if (converted.length > 0) {
+			contentEl.createEl('h3', { text: `Converted (${converted.length})` });
+			const convertedList = contentEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
+			for (const item of converted) {
+				convertedList.createEl('li', {
+					text: `${item.path}: ${formatPreviewValue(item.from)} → ${formatPreviewValue(item.to)}`
+				});
+			}
+		}
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const closeBtn = buttonContainer.createEl('button');
+		closeBtn.setText('Close');
+		closeBtn.addClass('mod-cta');
+		closeBtn.addEventListener('click', () => this.close());
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
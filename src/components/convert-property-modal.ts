@@ -0,0 +1,175 @@
+/**
+ * Convert Property Modal
+ * Modal for converting a property to another type on selected files
+ */
+
+import { Modal, App, Setting, TFile } from 'obsidian';
+import { BulkOperations } from '../utils/bulk-operations';
+import type { ConversionOptions, ConvertiblePropType } from '../utils/property-conversion';
+import type { ConfirmOperation } from './bulk-operation-confirm';
+import { ConversionReportModal } from './conversion-report-modal';
+
+export class ConvertPropertyModal extends Modal {
+	private files: string[];
+	private property: string = '';
+	private options: ConversionOptions = {
+		type: 'list',
+		delimiter: ',',
+		dateFormats: [],
+	};
+	private bulkOps: BulkOperations;
+	private confirmOperation?: ConfirmOperation;
+
+	constructor(app: App, files: string[], bulkOps?: BulkOperations, confirmOperation?: ConfirmOperation) {
+		super(app);
+		this.files = files;
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.confirmOperation = confirmOperation;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Convert property').setHeading();
+		contentEl.createEl('p', { text: `Converting a property in ${this.files.length} file${this.files.length !== 1 ? 's' : ''}` });
+
+		// Get all unique properties from selected files
+		const allProperties = new Set<string>();
+		for (const filePath of this.files) {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (file instanceof TFile) {
+				const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				if (frontmatter) {
+					for (const key in frontmatter) {
+						allProperties.add(key);
+					}
+				}
+			}
+		}
+
+		if (allProperties.size === 0) {
+			contentEl.createEl('p', { text: 'No properties found in selected files.' });
+			return;
+		}
+
+		const sortedProperties = Array.from(allProperties).sort();
+		this.property = sortedProperties[0];
+
+		// Property
+		new Setting(contentEl)
+			.setName('Property')
+			.setDesc('Select the property to convert.')
+			.addDropdown(dropdown => {
+				for (const prop of sortedProperties) {
+					dropdown.addOption(prop, prop);
+				}
+				dropdown
+					.setValue(this.property)
+					.onChange(value => {
+						this.property = value;
+					});
+			});
+
+		// Target type
+		let delimiterSetting: Setting;
+		let dateFormatsSetting: Setting;
+		const updateVisibility = () => {
+			const isDate = this.options.type === 'date' || this.options.type === 'datetime';
+			delimiterSetting.settingEl.toggleClass('bases-cms-setting-hidden', this.options.type !== 'list');
+			dateFormatsSetting.settingEl.toggleClass('bases-cms-setting-hidden', !isDate);
+		};
+
+		new Setting(contentEl)
+			.setName('Convert to')
+			.setDesc('Select the target property type.')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('list', 'List')
+					.addOption('number', 'Number')
+					.addOption('checkbox', 'Checkbox')
+					.addOption('date', 'Date')
+					.addOption('datetime', 'Date & time')
+					.setValue(this.options.type)
+					.onChange(value => {
+						this.options.type = value as ConvertiblePropType;
+						updateVisibility();
+					});
+			});
+
+		// List delimiter
+		delimiterSetting = new Setting(contentEl)
+			.setName('Delimiter')
+			.setDesc('Character that separates list items in text values.')
+			.addText(text => {
+				text
+					.setValue(this.options.delimiter)
+					.onChange(value => {
+						this.options.delimiter = value;
+					});
+			});
+
+		// Date input formats
+		dateFormatsSetting = new Setting(contentEl)
+			.setName('Input date formats')
+			// False positive: Date format tokens and "ISO" are not prose
+			// eslint-disable-next-line obsidianmd/ui/sentence-case
+			.setDesc('One format per line, for example DD/MM/YYYY. ISO 8601 dates are always recognized.')
+			.addTextArea(text => {
+				text
+					// False positive: Placeholder text with format examples, not UI text
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.setPlaceholder('MM/DD/YYYY\nMMMM D, YYYY')
+					.onChange(value => {
+						this.options.dateFormats = value.split('\n').map(format => format.trim()).filter(format => format.length > 0);
+					});
+			});
+
+		updateVisibility();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const applyBtn = buttonContainer.createEl('button');
+		applyBtn.setText('Apply');
+		applyBtn.addClass('mod-cta');
+		applyBtn.addEventListener('click', () => {
+			void (async () => {
+				if (this.property) {
+					await this.applyChanges();
+					this.close();
+				}
+			})();
+		});
+	}
+
+	private async applyChanges(): Promise<void> {
+		const property = this.property;
+		const options = { ...this.options };
+		const run = async () => {
+			const report = await this.bulkOps.convertPropertyType(this.files, property, options);
+			if (report) {
+				new ConversionReportModal(this.app, property, report).open();
+			}
+		};
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				`convert ${property} to ${options.type} in`,
+				() => this.bulkOps.previewConvertPropertyType(this.files, property, options),
+				run
+			);
+		} else {
+			await run();
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,94 @@
+/**
+ * Copy As Modal
+ * Modal for copying the selection to the clipboard as links, embeds, a table, CSV or JSON
+ */
+
+import { Modal, App, Setting, Notice } from 'obsidian';
+import { COPY_FORMAT_LABELS, formatCopyText, usesProperties, type CopyEntry, type CopyFormat } from '../utils/copy-formats';
+
+export class CopyAsModal extends Modal {
+	private format: CopyFormat = 'wikilinks';
+	private properties: string[];
+	private getEntries: (properties: string[]) => CopyEntry[];
+	private outputEl: HTMLTextAreaElement | null = null;
+	private propertiesSetting: Setting | null = null;
+
+	constructor(app: App, properties: string[], getEntries: (properties: string[]) => CopyEntry[]) {
+		super(app);
+		this.properties = properties;
+		this.getEntries = getEntries;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Copy as').setHeading();
+		const entryCount = this.getEntries([]).length;
+		contentEl.createEl('p', { text: `Copying ${entryCount} entr${entryCount !== 1 ? 'ies' : 'y'} in the view's sort order` });
+
+		new Setting(contentEl)
+			.setName('Format')
+			.addDropdown(dropdown => {
+				for (const [format, label] of Object.entries(COPY_FORMAT_LABELS)) {
+					dropdown.addOption(format, label);
+				}
+				dropdown
+					.setValue(this.format)
+					.onChange(value => {
+						this.format = value as CopyFormat;
+						this.updateOutput();
+					});
+			});
+
+		this.propertiesSetting = new Setting(contentEl)
+			.setName('Properties')
+			.setDesc('Columns to include, in order (comma-separated). Defaults to the properties shown on cards.')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter property names')
+					.setValue(this.properties.join(', '))
+					.onChange(value => {
+						this.properties = value
+							.split(',')
+							.map(prop => prop.trim())
+							.filter(prop => prop.length > 0);
+						this.updateOutput();
+					});
+			});
+
+		this.outputEl = contentEl.createEl('textarea', { cls: 'bases-cms-copy-output', attr: { readonly: 'true', rows: '10' } });
+		this.updateOutput();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const copyBtn = buttonContainer.createEl('button');
+		copyBtn.setText('Copy');
+		copyBtn.addClass('mod-cta');
+		copyBtn.addEventListener('click', () => {
+			void (async () => {
+				await navigator.clipboard.writeText(this.outputEl?.value ?? '');
+				new Notice(`Copied ${entryCount} entr${entryCount !== 1 ? 'ies' : 'y'} as ${COPY_FORMAT_LABELS[this.format].toLowerCase()}`);
+				this.close();
+			})();
+		});
+	}
+
+	private updateOutput(): void {
+		this.propertiesSetting?.settingEl.toggleClass('bases-cms-setting-hidden', !usesProperties(this.format));
+		if (!this.outputEl) return;
+		const properties = usesProperties(this.format) ? this.properties : [];
+		this.outputEl.value = formatCopyText(this.app, this.getEntries(properties), this.format, properties);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
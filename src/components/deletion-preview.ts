@@ -6,15 +6,18 @@
 import { Modal, App, Setting } from 'obsidian';
 import { DeletionPreview } from '../utils/smart-deletion';
 import { executeSmartDeletion } from '../utils/smart-deletion';
+import type { BulkJobRunner } from '../utils/bulk-job-runner';
 
 export class DeletionPreviewModal extends Modal {
 	private preview: DeletionPreview;
 	private onConfirm: () => void;
+	private runner?: BulkJobRunner;
 
-	constructor(app: App, preview: DeletionPreview, onConfirm: () => void) {
+	constructor(app: App, preview: DeletionPreview, onConfirm: () => void, runner?: BulkJobRunner) {
 		super(app);
 		this.preview = preview;
 		this.onConfirm = onConfirm;
+		this.runner = runner;
 	}
 
 	onOpen(): void {
@@ -87,7 +90,7 @@ export class DeletionPreviewModal extends Modal {
 		deleteBtn.addClass('destructive');
 		deleteBtn.addEventListener('click', () => {
 			void (async () => {
-				await executeSmartDeletion(this.app, this.preview);
+				await executeSmartDeletion(this.app, this.preview, this.runner);
 				this.onConfirm();
 				this.close();
 			})();
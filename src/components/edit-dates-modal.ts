@@ -0,0 +1,234 @@
+/**
+ * Edit Dates Modal
+ * Modal for shifting, stamping or spreading a date property on selected files
+ */
+
+import { Modal, App, Setting, TFile, Notice } from 'obsidian';
+import { BulkOperations } from '../utils/bulk-operations';
+import { getAssignedType } from '../utils/grid-edit';
+import { DATE_EDIT_MODE_LABELS, describeDateEdit, detectDateFormat, parseDateInput, parseDateShift, type DateEdit } from '../utils/date-operations';
+import type { ConfirmOperation } from './bulk-operation-confirm';
+
+export class EditDatesModal extends Modal {
+	private files: string[];
+	private property: string;
+	private mode: DateEdit['mode'] = 'shift';
+	private shift = '+1 day';
+	private date = '';
+	private interval = '1 week';
+	private bulkOps: BulkOperations;
+	private confirmOperation?: ConfirmOperation;
+
+	/**
+	 * @param files - Selected files in the view's sort order, which spreading follows
+	 * @param defaultProperty - Property selected initially, usually the view's date property
+	 */
+	constructor(app: App, files: string[], defaultProperty: string, bulkOps?: BulkOperations, confirmOperation?: ConfirmOperation) {
+		super(app);
+		this.files = files;
+		this.property = defaultProperty;
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.confirmOperation = confirmOperation;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Edit dates').setHeading();
+		contentEl.createEl('p', { text: `Editing a date property in ${this.files.length} file${this.files.length !== 1 ? 's' : ''}` });
+
+		const properties = this.getDateProperties();
+		if (properties.length === 0) {
+			contentEl.createEl('p', { text: 'No date properties found in selected files.' });
+			return;
+		}
+		if (!properties.includes(this.property)) {
+			this.property = properties[0];
+		}
+
+		// Property
+		new Setting(contentEl)
+			.setName('Property')
+			.setDesc('Select the date property to edit.')
+			.addDropdown(dropdown => {
+				for (const prop of properties) {
+					dropdown.addOption(prop, prop);
+				}
+				dropdown
+					.setValue(this.property)
+					.onChange(value => {
+						this.property = value;
+					});
+			});
+
+		// Mode
+		let shiftSetting: Setting;
+		let dateSetting: Setting;
+		let intervalSetting: Setting;
+		const updateVisibility = () => {
+			shiftSetting.settingEl.toggleClass('bases-cms-setting-hidden', this.mode !== 'shift');
+			dateSetting.settingEl.toggleClass('bases-cms-setting-hidden', this.mode !== 'fixed' && this.mode !== 'spread');
+			intervalSetting.settingEl.toggleClass('bases-cms-setting-hidden', this.mode !== 'spread');
+			dateSetting.setName(this.mode === 'spread' ? 'Start date' : 'Date');
+		};
+
+		new Setting(contentEl)
+			.setName('Change')
+			.setDesc('Spreading follows the current sort order of the view.')
+			.addDropdown(dropdown => {
+				for (const [mode, label] of Object.entries(DATE_EDIT_MODE_LABELS)) {
+					dropdown.addOption(mode, label);
+				}
+				dropdown
+					.setValue(this.mode)
+					.onChange(value => {
+						this.mode = value as DateEdit['mode'];
+						updateVisibility();
+					});
+			});
+
+		// Relative amount
+		shiftSetting = new Setting(contentEl)
+			.setName('Amount')
+			.setDesc('For example +3 days, -1 week or +2 hours.')
+			.addText(text => {
+				text
+					.setValue(this.shift)
+					.onChange(value => {
+						this.shift = value;
+					});
+			});
+
+		// Fixed date or start date
+		dateSetting = new Setting(contentEl)
+			.setName('Date')
+			.setDesc('Date with an optional time. Without a time, date & time values keep their own time of day.')
+			.addText(text => {
+				text
+					// False positive: Placeholder text with a date format, not UI text
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.setPlaceholder('YYYY-MM-DD or YYYY-MM-DD HH:mm')
+					.onChange(value => {
+						this.date = value;
+					});
+			});
+
+		// Spread interval
+		intervalSetting = new Setting(contentEl)
+			.setName('Interval')
+			.setDesc('Time between consecutive files, for example 1 week.')
+			.addText(text => {
+				text
+					.setValue(this.interval)
+					.onChange(value => {
+						this.interval = value;
+					});
+			});
+
+		updateVisibility();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const applyBtn = buttonContainer.createEl('button');
+		applyBtn.setText('Apply');
+		applyBtn.addClass('mod-cta');
+		applyBtn.addEventListener('click', () => {
+			void (async () => {
+				const edit = this.buildEdit();
+				if (this.property && edit) {
+					await this.applyChanges(edit);
+					this.close();
+				}
+			})();
+		});
+	}
+
+	/**
+	 * Properties of the selected files that hold dates or are assigned a date type
+	 * The view's date property is always offered, so it can be set on files that lack it
+	 */
+	private getDateProperties(): string[] {
+		const properties = new Set<string>();
+		if (this.property) {
+			properties.add(this.property);
+		}
+		for (const filePath of this.files) {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (!(file instanceof TFile)) continue;
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter) continue;
+			for (const key in frontmatter) {
+				if (properties.has(key)) continue;
+				const type = getAssignedType(this.app, key);
+				if (type === 'date' || type === 'datetime' || detectDateFormat(frontmatter[key])) {
+					properties.add(key);
+				}
+			}
+		}
+		return Array.from(properties).sort();
+	}
+
+	/**
+	 * The edit described by the form, or null (with a notice) if an input is invalid
+	 */
+	private buildEdit(): DateEdit | null {
+		switch (this.mode) {
+			case 'shift': {
+				const shift = parseDateShift(this.shift);
+				if (!shift) {
+					new Notice('Enter an amount such as +3 days or -1 week');
+					return null;
+				}
+				return { mode: 'shift', shift };
+			}
+			case 'now':
+				return { mode: 'now' };
+			case 'fixed':
+				if (!parseDateInput(this.date)) {
+					new Notice('Enter a valid date');
+					return null;
+				}
+				return { mode: 'fixed', date: this.date };
+			case 'spread': {
+				const interval = parseDateShift(this.interval);
+				if (!parseDateInput(this.date)) {
+					new Notice('Enter a valid start date');
+					return null;
+				}
+				if (!interval || interval.amount === 0) {
+					new Notice('Enter an interval such as 1 week');
+					return null;
+				}
+				return { mode: 'spread', start: this.date, interval };
+			}
+		}
+	}
+
+	private async applyChanges(edit: DateEdit): Promise<void> {
+		const property = this.property;
+		const run = async () => {
+			await this.bulkOps.editDates(this.files, property, edit);
+		};
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				`${describeDateEdit(property, edit).replace(/^\w/, c => c.toLowerCase())} in`,
+				() => this.bulkOps.previewEditDates(this.files, property, edit),
+				run
+			);
+		} else {
+			await run();
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
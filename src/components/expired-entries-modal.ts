@@ -0,0 +1,68 @@
+/**
+ * Expired Entries Modal
+ * Asks whether published entries past their expiry date should be moved back to draft
+ */
+
+import { Modal, App, Setting } from 'obsidian';
+
+/** Maximum number of entries listed */
+const MAX_LISTED_ENTRIES = 20;
+
+export interface ExpiredEntry {
+	path: string;
+	expiredAt: Date;
+}
+
+export class ExpiredEntriesModal extends Modal {
+	private entries: ExpiredEntry[];
+	private onConfirm: () => Promise<void>;
+
+	constructor(app: App, entries: ExpiredEntry[], onConfirm: () => Promise<void>) {
+		super(app);
+		this.entries = entries;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Expired entries').setHeading();
+
+		const count = this.entries.length;
+		contentEl.createEl('p', {
+			text: `${count} published ${count !== 1 ? 'entries have' : 'entry has'} passed ${count !== 1 ? 'their' : 'its'} expiry date. Move ${count !== 1 ? 'them' : 'it'} back to draft?`
+		});
+
+		const list = contentEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
+		for (const entry of this.entries.slice(0, MAX_LISTED_ENTRIES)) {
+			list.createEl('li', { text: `${entry.path} (expired ${entry.expiredAt.toLocaleString()})` });
+		}
+		if (count > MAX_LISTED_ENTRIES) {
+			list.createEl('li', { text: `... and ${count - MAX_LISTED_ENTRIES} more` });
+		}
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Not now');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const confirmBtn = buttonContainer.createEl('button');
+		confirmBtn.setText('Move to draft');
+		confirmBtn.addClass('mod-cta');
+		confirmBtn.addEventListener('click', () => {
+			void (async () => {
+				await this.onConfirm();
+				this.close();
+			})();
+		});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,181 @@
+/**
+ * Export Modal
+ * Modal for exporting selected entries and their attachments to a folder outside the vault
+ */
+
+import { Modal, App, Setting, Notice } from 'obsidian';
+import type { BasesCMSSettings } from '../types';
+import { findExistingExportFiles, isAbsoluteDestination, pickExportFolder, planExport, type ExportOptions } from '../utils/export-operations';
+
+/** Maximum number of existing files listed before overwriting */
+const MAX_LISTED_FILES = 50;
+
+export class ExportModal extends Modal {
+	private files: string[];
+	private options: ExportOptions;
+	private onExport: (options: ExportOptions) => Promise<void>;
+
+	constructor(app: App, files: string[], settings: BasesCMSSettings, onExport: (options: ExportOptions) => Promise<void>) {
+		super(app);
+		this.files = files;
+		this.onExport = onExport;
+		// Start from the options used last time
+		this.options = {
+			destination: settings.exportDestination,
+			rewriteLinks: settings.exportRewriteLinks,
+			stripProperties: settings.exportStripProperties
+				.split(',')
+				.map(prop => prop.trim())
+				.filter(prop => prop.length > 0),
+		};
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Export').setHeading();
+
+		const plan = planExport(this.app, this.files);
+		const notes = plan.items.filter(item => item.kind === 'note').length;
+		const attachments = plan.items.length - notes;
+		contentEl.createEl('p', {
+			text: `Exporting ${notes} note${notes !== 1 ? 's' : ''} and ${attachments} attachment${attachments !== 1 ? 's' : ''}`
+		});
+
+		// Destination
+		const destinationSetting = new Setting(contentEl)
+			.setName('Destination folder')
+			.setDesc('Full path of a folder on this computer to export to. You are asked before existing files are overwritten.');
+		destinationSetting.addText(text => {
+			text
+				.setPlaceholder('Enter folder path')
+				.setValue(this.options.destination)
+				.onChange(value => {
+					this.options.destination = value.trim();
+				});
+			destinationSetting.addButton(button => {
+				button
+					.setButtonText('Browse')
+					.onClick(() => {
+						void (async () => {
+							const folder = await pickExportFolder();
+							if (folder) {
+								this.options.destination = folder;
+								text.setValue(folder);
+							}
+						})();
+					});
+			});
+		});
+
+		// Links
+		new Setting(contentEl)
+			.setName('Rewrite links')
+			.setDesc('Convert wikilinks and embeds to relative Markdown links. Links to notes that are not exported become plain text.')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.options.rewriteLinks)
+					.onChange(value => {
+						this.options.rewriteLinks = value;
+					});
+			});
+
+		// Private properties
+		new Setting(contentEl)
+			.setName('Strip properties')
+			.setDesc('Properties to leave out of the exported notes (comma-separated).')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter property names')
+					.setValue(this.options.stripProperties.join(', '))
+					.onChange(value => {
+						this.options.stripProperties = value
+							.split(',')
+							.map(prop => prop.trim().replace(/^note\./, ''))
+							.filter(prop => prop.length > 0);
+					});
+			});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const exportBtn = buttonContainer.createEl('button');
+		exportBtn.setText('Export');
+		exportBtn.addClass('mod-cta');
+		exportBtn.addEventListener('click', () => {
+			void (async () => {
+				if (!this.options.destination) {
+					new Notice('Choose a destination folder');
+					return;
+				}
+				if (!isAbsoluteDestination(this.options.destination)) {
+					new Notice('Enter the full path of the destination folder');
+					return;
+				}
+				const existing = await findExistingExportFiles(
+					this.options.destination,
+					planExport(this.app, this.files).items.map(item => item.targetPath)
+				);
+				if (existing.length > 0) {
+					this.renderOverwriteWarning(existing);
+					return;
+				}
+				await this.runExport();
+			})();
+		});
+	}
+
+	/**
+	 * List the files the export would overwrite and ask before going ahead
+	 */
+	private renderOverwriteWarning(existing: string[]): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Overwrite existing files?').setHeading();
+		contentEl.createEl('p', {
+			text: `${existing.length} file${existing.length !== 1 ? 's' : ''} already exist${existing.length !== 1 ? '' : 's'} in ${this.options.destination} and will be overwritten.`,
+			cls: 'bases-cms-deletion-warning'
+		});
+
+		const list = contentEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
+		for (const targetPath of existing.slice(0, MAX_LISTED_FILES)) {
+			list.createEl('li', { text: targetPath });
+		}
+		if (existing.length > MAX_LISTED_FILES) {
+			const remaining = existing.length - MAX_LISTED_FILES;
+			list.createEl('li', { text: `... and ${remaining} more file${remaining !== 1 ? 's' : ''}` });
+		}
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const backBtn = buttonContainer.createEl('button');
+		backBtn.setText('Back');
+		backBtn.addEventListener('click', () => this.onOpen());
+
+		const overwriteBtn = buttonContainer.createEl('button');
+		overwriteBtn.setText('Overwrite');
+		overwriteBtn.addClass('mod-warning');
+		overwriteBtn.addEventListener('click', () => {
+			void this.runExport();
+		});
+	}
+
+	private async runExport(): Promise<void> {
+		this.close();
+		await this.onExport(this.options);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
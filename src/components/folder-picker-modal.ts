@@ -0,0 +1,38 @@
+/**
+ * Folder Picker Modal
+ * Searchable modal for selecting a vault folder
+ */
+
+import { App, FuzzySuggestModal, TFolder } from 'obsidian';
+
+export class FolderPickerModal extends FuzzySuggestModal<TFolder> {
+	private onSelect: (folder: TFolder) => void;
+
+	constructor(app: App, onSelect: (folder: TFolder) => void) {
+		super(app);
+		this.onSelect = onSelect;
+		this.setPlaceholder('Choose a folder...');
+	}
+
+	getItems(): TFolder[] {
+		const folders = this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder);
+
+		// Sort alphabetically by path, keeping the vault root first
+		folders.sort((a, b) => {
+			if (a.isRoot()) return -1;
+			if (b.isRoot()) return 1;
+			return a.path.localeCompare(b.path);
+		});
+
+		return folders;
+	}
+
+	getItemText(item: TFolder): string {
+		return item.isRoot() ? '/' : item.path;
+	}
+
+	onChooseItem(item: TFolder, evt: MouseEvent | KeyboardEvent): void {
+		this.onSelect(item);
+	}
+}
@@ -0,0 +1,207 @@
+/**
+ * Macro Editor Modal
+ * Modal for naming a macro and editing its list of steps
+ */
+
+import { Modal, App, Setting } from 'obsidian';
+import type { BulkMacro, MacroStep } from '../types';
+import { MACRO_STEP_LABELS, createMacroStep } from '../utils/macro-operations';
+import { CommandPickerModal } from './command-picker-modal';
+import { FolderPickerModal } from './folder-picker-modal';
+import { IconPickerModal } from './icon-picker-modal';
+
+export class MacroEditorModal extends Modal {
+	private macro: BulkMacro;
+	private onSave: (macro: BulkMacro) => Promise<void>;
+	private stepsEl: HTMLElement | null = null;
+
+	constructor(app: App, macro: BulkMacro, onSave: (macro: BulkMacro) => Promise<void>) {
+		super(app);
+		// Edit a copy so cancelling leaves the saved macro untouched
+		this.macro = JSON.parse(JSON.stringify(macro)) as BulkMacro;
+		this.onSave = onSave;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Edit macro').setHeading();
+
+		new Setting(contentEl)
+			.setName('Name')
+			.setDesc('Used for the toolbar button and the command.')
+			.addText(text => {
+				text
+					.setPlaceholder('Send to review')
+					.setValue(this.macro.name)
+					.onChange(value => {
+						this.macro.name = value;
+					});
+			});
+
+		const iconSetting = new Setting(contentEl)
+			.setName('Icon')
+			.setDesc(this.macro.icon);
+		iconSetting.addButton(button => {
+			button
+				.setButtonText('Select icon')
+				.onClick(() => {
+					new IconPickerModal(this.app, (iconId) => {
+						this.macro.icon = iconId;
+						iconSetting.setDesc(iconId);
+					}).open();
+				});
+		});
+
+		new Setting(contentEl).setName('Steps').setHeading();
+		this.stepsEl = contentEl.createDiv('bases-cms-macro-steps');
+		this.renderSteps();
+
+		new Setting(contentEl)
+			.setName('Add step')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Choose a step...');
+				for (const [type, label] of Object.entries(MACRO_STEP_LABELS)) {
+					dropdown.addOption(type, label);
+				}
+				dropdown.onChange(value => {
+					if (!value) return;
+					this.macro.steps.push(createMacroStep(value as MacroStep['type']));
+					dropdown.setValue('');
+					this.renderSteps();
+				});
+			});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const saveBtn = buttonContainer.createEl('button');
+		saveBtn.setText('Save');
+		saveBtn.addClass('mod-cta');
+		saveBtn.addEventListener('click', () => {
+			void (async () => {
+				this.macro.name = this.macro.name.trim() || 'Untitled macro';
+				await this.onSave(this.macro);
+				this.close();
+			})();
+		});
+	}
+
+	private renderSteps(): void {
+		if (!this.stepsEl) return;
+		this.stepsEl.empty();
+
+		if (this.macro.steps.length === 0) {
+			this.stepsEl.createEl('p', { text: 'No steps yet.', cls: 'setting-item-description' });
+			return;
+		}
+
+		this.macro.steps.forEach((step, index) => {
+			const setting = new Setting(this.stepsEl as HTMLElement)
+				.setName(`${index + 1}. ${MACRO_STEP_LABELS[step.type]}`);
+			this.renderStepFields(setting, step);
+
+			setting.addExtraButton(button => {
+				button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(() => this.moveStep(index, -1));
+			});
+			setting.addExtraButton(button => {
+				button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === this.macro.steps.length - 1)
+					.onClick(() => this.moveStep(index, 1));
+			});
+			setting.addExtraButton(button => {
+				button
+					.setIcon('trash-2')
+					.setTooltip('Remove step')
+					.onClick(() => {
+						this.macro.steps.splice(index, 1);
+						this.renderSteps();
+					});
+			});
+		});
+	}
+
+	private renderStepFields(setting: Setting, step: MacroStep): void {
+		switch (step.type) {
+			case 'set-property':
+				setting.addText(text => text
+					.setPlaceholder('Property')
+					.setValue(step.property)
+					.onChange(value => { step.property = value; }));
+				setting.addText(text => text
+					.setPlaceholder('Value')
+					.setValue(step.value)
+					.onChange(value => { step.value = value; }));
+				break;
+			case 'remove-property':
+				setting.addText(text => text
+					.setPlaceholder('Property')
+					.setValue(step.property)
+					.onChange(value => { step.property = value; }));
+				break;
+			case 'add-tags':
+			case 'remove-tags':
+				setting.addText(text => text
+					.setPlaceholder('Tags, comma-separated')
+					.setValue(step.tags)
+					.onChange(value => { step.tags = value; }));
+				break;
+			case 'set-draft':
+				setting.addDropdown(dropdown => dropdown
+					.addOption('draft', 'Draft')
+					.addOption('published', 'Published')
+					.setValue(step.draft ? 'draft' : 'published')
+					.onChange(value => { step.draft = value === 'draft'; }));
+				break;
+			case 'move':
+				setting.setDesc(step.folder || '/');
+				setting.addButton(button => button
+					.setButtonText('Choose folder')
+					.onClick(() => {
+						new FolderPickerModal(this.app, (folder) => {
+							step.folder = folder.isRoot() ? '' : folder.path;
+							this.renderSteps();
+						}).open();
+					}));
+				break;
+			case 'run-command':
+				setting.setDesc(step.commandName || step.commandId || 'No command selected');
+				setting.addButton(button => button
+					.setButtonText('Choose command')
+					.onClick(() => {
+						new CommandPickerModal(this.app, (commandId) => {
+							const registry = (this.app as { commands?: { commands?: Record<string, { name?: string }> } }).commands?.commands;
+							step.commandId = commandId;
+							step.commandName = registry?.[commandId]?.name ?? '';
+							this.renderSteps();
+						}).open();
+					}));
+				break;
+		}
+	}
+
+	private moveStep(index: number, offset: number): void {
+		const target = index + offset;
+		if (target < 0 || target >= this.macro.steps.length) return;
+		const [step] = this.macro.steps.splice(index, 1);
+		this.macro.steps.splice(target, 0, step);
+		this.renderSteps();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
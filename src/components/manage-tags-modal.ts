@@ -1,21 +1,34 @@
 /**
  * Manage Tags Modal
- * Modal for adding/removing tags from selected files
+ * Modal for adding/removing tags from selected files,
+ * with a tag management mode to rename, merge or delete tags across every entry in the base
  */
 
-import { Modal, App, Setting, TFile } from 'obsidian';
+import { Modal, App, Setting, TFile, Notice, ToggleComponent } from 'obsidian';
 import { BulkOperations } from '../utils/bulk-operations';
+import { collectTagCounts, getFrontmatterTags, getInlineTags, getTagsKey, isRewrittenTag, normalizeTag, type TagRewrite } from '../utils/tag-operations';
+import { BulkOperationConfirmModal } from './bulk-operation-confirm';
 
 export class ManageTagsModal extends Modal {
 	private files: string[];
 	private tagsToAdd: string = '';
 	private tagsToRemove: Set<string> = new Set();
 	private bulkOps: BulkOperations;
+	/** Every entry in the base, when tag management mode is available */
+	private baseFiles?: string[];
+	private selectedTags: Set<string> = new Set();
+	private newTagName: string = '';
+	private tagFilter: string = '';
+	/** View property that holds tags */
+	private tagsProperty?: string;
+	private stripInline: boolean = false;
 
-	constructor(app: App, files: string[]) {
+	constructor(app: App, files: string[], bulkOps?: BulkOperations, baseFiles?: string[], tagsProperty?: string) {
 		super(app);
 		this.files = files;
-		this.bulkOps = new BulkOperations(app);
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.baseFiles = baseFiles;
+		this.tagsProperty = tagsProperty;
 	}
 
 	onOpen(): void {
@@ -43,27 +56,31 @@ export class ManageTagsModal extends Modal {
 		contentEl.createEl('h3', { text: 'Remove tags' }); // Keep h3 for section heading
 		const removeContainer = contentEl.createDiv();
 
-		// Get all unique tags from selected files
+		// Get all unique tags from selected files, in whatever format each note uses
 		const allTags = new Set<string>();
+		const inlineOnlyTags = new Set<string>();
+		const tagsKey = getTagsKey(this.tagsProperty);
 		for (const filePath of this.files) {
 			const file = this.app.vault.getAbstractFileByPath(filePath);
 			if (file instanceof TFile) {
-				const metadata = this.app.metadataCache.getFileCache(file);
-				const frontmatter = metadata?.frontmatter;
-				if (frontmatter?.tags) {
-					const tags = Array.isArray(frontmatter.tags) 
-						? (frontmatter.tags as string[])
-						: [frontmatter.tags as string];
-					tags.forEach(tag => allTags.add(tag));
-				}
+				getFrontmatterTags(this.app, file, tagsKey).forEach(tag => allTags.add(tag));
+				this.app.metadataCache.getFileCache(file)?.tags?.forEach(cache => inlineOnlyTags.add(normalizeTag(cache.tag)));
 			}
 		}
+		for (const tag of allTags) {
+			inlineOnlyTags.delete(tag);
+		}
+		inlineOnlyTags.forEach(tag => allTags.add(tag));
 
 		// Create checkboxes for each tag
+		// Inline-only tags can only be removed from the body, so they wait for inline removal
+		const inlineOnlyToggles: ToggleComponent[] = [];
 		for (const tag of Array.from(allTags).sort()) {
-			new Setting(removeContainer)
-				.setName(tag)
-				.addToggle(toggle => {
+			const setting = new Setting(removeContainer).setName(tag);
+			if (inlineOnlyTags.has(tag)) {
+				setting.setDesc('Only used inline in the note body. Turn on inline tag removal below to remove it.');
+			}
+			setting.addToggle(toggle => {
 					toggle
 						.setValue(this.tagsToRemove.has(tag))
 						.onChange(value => {
@@ -73,6 +90,43 @@ export class ManageTagsModal extends Modal {
 								this.tagsToRemove.delete(tag);
 							}
 						});
+					if (inlineOnlyTags.has(tag)) {
+						toggle.setDisabled(!this.stripInline);
+						inlineOnlyToggles.push(toggle);
+					}
+				});
+		}
+
+		if (allTags.size > 0) {
+			new Setting(contentEl)
+				.setName('Also remove inline tags')
+				.setDesc('Remove matching #tags from the note body as well.')
+				.addToggle(toggle => {
+					toggle
+						.setValue(this.stripInline)
+						.onChange(value => {
+							this.stripInline = value;
+							// Turning inline removal off deselects the tags it was needed for
+							if (!value) {
+								inlineOnlyTags.forEach(tag => this.tagsToRemove.delete(tag));
+							}
+							for (const inlineToggle of inlineOnlyToggles) {
+								if (!value) inlineToggle.setValue(false);
+								inlineToggle.setDisabled(!value);
+							}
+						});
+				});
+		}
+
+		// Tag management mode
+		if (this.baseFiles) {
+			new Setting(contentEl)
+				.setName('Manage all tags in this base')
+				.setDesc('Rename, merge or delete tags on every entry in the base.')
+				.addButton(button => {
+					button
+						.setButtonText('Open tag manager')
+						.onClick(() => this.renderTagManager());
 				});
 		}
 
@@ -103,16 +157,152 @@ export class ManageTagsModal extends Modal {
 				.map(t => t.trim())
 				.filter(t => t.length > 0);
 			if (tagsToAdd.length > 0) {
-				await this.bulkOps.addTags(this.files, tagsToAdd);
+				await this.bulkOps.addTags(this.files, tagsToAdd, this.tagsProperty);
 			}
 		}
 
 		// Remove tags
 		if (this.tagsToRemove.size > 0) {
-			await this.bulkOps.removeTags(this.files, Array.from(this.tagsToRemove));
+			await this.bulkOps.removeTags(this.files, Array.from(this.tagsToRemove), {
+				tagsProperty: this.tagsProperty,
+				stripInline: this.stripInline,
+			});
 		}
 	}
 
+	/**
+	 * List every tag used in the base with counts, with rename, merge and delete actions
+	 */
+	private renderTagManager(): void {
+		const { contentEl } = this;
+		const baseFiles = this.baseFiles ?? [];
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Manage tags in this base').setHeading();
+
+		const counts = collectTagCounts(this.app, baseFiles, getTagsKey(this.tagsProperty));
+		contentEl.createEl('p', {
+			text: `${counts.size} tag${counts.size !== 1 ? 's' : ''} used by ${baseFiles.length} entr${baseFiles.length !== 1 ? 'ies' : 'y'}`
+		});
+
+		new Setting(contentEl)
+			.setName('Filter')
+			.addText(text => {
+				text
+					.setPlaceholder('Filter tags')
+					.setValue(this.tagFilter)
+					.onChange(value => {
+						this.tagFilter = value;
+						renderList();
+					});
+			});
+
+		const listEl = contentEl.createDiv('bases-cms-tag-manager-list');
+		const renderList = () => {
+			listEl.empty();
+			const filter = normalizeTag(this.tagFilter).toLowerCase();
+			const tags = Array.from(counts.keys())
+				.filter(tag => !filter || tag.toLowerCase().includes(filter))
+				.sort((a, b) => a.localeCompare(b));
+			if (tags.length === 0) {
+				listEl.createEl('p', { text: 'No tags found.', cls: 'setting-item-description' });
+				return;
+			}
+			for (const tag of tags) {
+				const count = counts.get(tag) ?? 0;
+				new Setting(listEl)
+					.setName(`#${tag}`)
+					.setDesc(`${count} file${count !== 1 ? 's' : ''}`)
+					.addToggle(toggle => {
+						toggle
+							.setValue(this.selectedTags.has(tag))
+							.onChange(value => {
+								if (value) {
+									this.selectedTags.add(tag);
+								} else {
+									this.selectedTags.delete(tag);
+								}
+							});
+					});
+			}
+		};
+		renderList();
+
+		new Setting(contentEl)
+			.setName('New name')
+			.setDesc('Rename the selected tag, or merge the selected tags into this one. Nested tags are renamed with their parent.')
+			.addText(text => {
+				text
+					// False positive: Placeholder text with a tag example, not UI text
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					.setPlaceholder('topic/subtopic')
+					.setValue(this.newTagName)
+					.onChange(value => {
+						this.newTagName = value;
+					});
+			});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const backBtn = buttonContainer.createEl('button');
+		backBtn.setText('Back');
+		backBtn.addEventListener('click', () => this.onOpen());
+
+		const deleteBtn = buttonContainer.createEl('button');
+		deleteBtn.setText('Delete');
+		deleteBtn.addClass('mod-warning');
+		deleteBtn.addEventListener('click', () => {
+			void this.previewRewrite({ from: Array.from(this.selectedTags), to: null });
+		});
+
+		const renameBtn = buttonContainer.createEl('button');
+		renameBtn.setText('Rename or merge');
+		renameBtn.addClass('mod-cta');
+		renameBtn.addEventListener('click', () => {
+			const target = normalizeTag(this.newTagName);
+			if (!target) {
+				new Notice('Enter a new tag name');
+				return;
+			}
+			if (/\s/.test(target)) {
+				new Notice('Tag names cannot contain spaces');
+				return;
+			}
+			void this.previewRewrite({ from: Array.from(this.selectedTags), to: target });
+		});
+	}
+
+	/**
+	 * Show the per-file changes of a tag rewrite and apply it once confirmed
+	 */
+	private async previewRewrite(rewrite: TagRewrite): Promise<void> {
+		if (rewrite.from.length === 0) {
+			new Notice('Select at least one tag');
+			return;
+		}
+
+		// Only entries that use one of the tags are written
+		const tagsKey = getTagsKey(this.tagsProperty);
+		const files = (this.baseFiles ?? []).filter(filePath => {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			return file instanceof TFile
+				&& [...getFrontmatterTags(this.app, file, tagsKey), ...getInlineTags(this.app, file)].some(tag => isRewrittenTag(tag, rewrite));
+		});
+
+		const preview = await this.bulkOps.previewRewriteTags(files, rewrite, this.tagsProperty);
+		const operationName = rewrite.to === null
+			? 'delete tags from'
+			: rewrite.from.length > 1 ? 'merge tags in' : 'rename tags in';
+		new BulkOperationConfirmModal(this.app, operationName, preview, () => {
+			void (async () => {
+				await this.bulkOps.rewriteTags(files, rewrite, this.tagsProperty);
+				this.close();
+			})();
+		}).open();
+	}
+
 	onClose(): void {
 		const { contentEl } = this;
 		contentEl.empty();
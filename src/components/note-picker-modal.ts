@@ -0,0 +1,28 @@
+/**
+ * Note Picker Modal
+ * Searchable modal for selecting a Markdown note
+ */
+
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+export class NotePickerModal extends FuzzySuggestModal<TFile> {
+	private onSelect: (file: TFile) => void;
+
+	constructor(app: App, onSelect: (file: TFile) => void) {
+		super(app);
+		this.onSelect = onSelect;
+		this.setPlaceholder('Choose a note...');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getMarkdownFiles().sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	getItemText(item: TFile): string {
+		return item.path;
+	}
+
+	onChooseItem(item: TFile, evt: MouseEvent | KeyboardEvent): void {
+		this.onSelect(item);
+	}
+}
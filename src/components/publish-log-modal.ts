@@ -0,0 +1,67 @@
+/**
+ * Publish Log Modal
+ * Lists drafts that were published automatically by scheduled publishing
+ */
+
+import { Modal, App, Setting } from 'obsidian';
+import type { PublishLogEntry } from '../types';
+
+export class PublishLogModal extends Modal {
+	private entries: PublishLogEntry[];
+	private onClear: () => Promise<void>;
+
+	constructor(app: App, entries: PublishLogEntry[], onClear: () => Promise<void>) {
+		super(app);
+		this.entries = entries;
+		this.onClear = onClear;
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Scheduled publish log').setHeading();
+
+		if (this.entries.length === 0) {
+			contentEl.createEl('p', { text: 'No drafts have been published automatically yet.' });
+			return;
+		}
+
+		for (const entry of this.entries) {
+			const publishedAt = new Date(entry.publishedAt).toLocaleString();
+			new Setting(contentEl)
+				.setName(entry.path)
+				.setDesc(`Published ${publishedAt} · scheduled for ${entry.scheduledFor}`)
+				.addButton(button => {
+					button
+						.setButtonText('Open')
+						.onClick(() => {
+							void this.app.workspace.openLinkText(entry.path, '');
+							this.close();
+						});
+				});
+		}
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const clearBtn = buttonContainer.createEl('button');
+		clearBtn.setText('Clear log');
+		clearBtn.addEventListener('click', () => {
+			void (async () => {
+				await this.onClear();
+				this.entries = [];
+				this.render();
+			})();
+		});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
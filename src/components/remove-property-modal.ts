@@ -5,16 +5,19 @@
 
 import { Modal, App, Setting, TFile } from 'obsidian';
 import { BulkOperations } from '../utils/bulk-operations';
+import type { ConfirmOperation } from './bulk-operation-confirm';
 
 export class RemovePropertyModal extends Modal {
 	private files: string[];
 	private propertiesToRemove: Set<string> = new Set();
 	private bulkOps: BulkOperations;
+	private confirmOperation?: ConfirmOperation;
 
-	constructor(app: App, files: string[]) {
+	constructor(app: App, files: string[], bulkOps?: BulkOperations, confirmOperation?: ConfirmOperation) {
 		super(app);
 		this.files = files;
-		this.bulkOps = new BulkOperations(app);
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.confirmOperation = confirmOperation;
 	}
 
 	onOpen(): void {
@@ -85,8 +88,16 @@ export class RemovePropertyModal extends Modal {
 	}
 
 	private async applyChanges(): Promise<void> {
-		for (const prop of this.propertiesToRemove) {
-			await this.bulkOps.removeProperty(this.files, prop);
+		const properties = Array.from(this.propertiesToRemove);
+		const run = () => this.bulkOps.removeProperties(this.files, properties);
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				`remove ${properties.join(', ')} from`,
+				() => this.bulkOps.previewRemoveProperties(this.files, properties),
+				run
+			);
+		} else {
+			await run();
 		}
 	}
 
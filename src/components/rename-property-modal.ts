@@ -0,0 +1,164 @@
+/**
+ * Rename Property Modal
+ * Modal for renaming a property key on selected files
+ */
+
+import { Modal, App, Setting, TFile } from 'obsidian';
+import { BulkOperations } from '../utils/bulk-operations';
+import type { ConfirmOperation } from './bulk-operation-confirm';
+
+export class RenamePropertyModal extends Modal {
+	private files: string[];
+	private fromProperty: string = '';
+	private toProperty: string = '';
+	private overwrite: boolean = false;
+	private conflictsEl: HTMLElement | null = null;
+	private bulkOps: BulkOperations;
+	private confirmOperation?: ConfirmOperation;
+
+	constructor(app: App, files: string[], bulkOps?: BulkOperations, confirmOperation?: ConfirmOperation) {
+		super(app);
+		this.files = files;
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.confirmOperation = confirmOperation;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Rename property').setHeading();
+		contentEl.createEl('p', { text: `Renaming a property in ${this.files.length} file${this.files.length !== 1 ? 's' : ''}` });
+
+		// Get all unique properties from selected files
+		const allProperties = new Set<string>();
+		for (const filePath of this.files) {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (file instanceof TFile) {
+				const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				if (frontmatter) {
+					for (const key in frontmatter) {
+						allProperties.add(key);
+					}
+				}
+			}
+		}
+
+		if (allProperties.size === 0) {
+			contentEl.createEl('p', { text: 'No properties found in selected files.' });
+			return;
+		}
+
+		const sortedProperties = Array.from(allProperties).sort();
+		this.fromProperty = sortedProperties[0];
+
+		// Source property
+		new Setting(contentEl)
+			.setName('Property')
+			.setDesc('Select the property to rename.')
+			.addDropdown(dropdown => {
+				for (const prop of sortedProperties) {
+					dropdown.addOption(prop, prop);
+				}
+				dropdown
+					.setValue(this.fromProperty)
+					.onChange(value => {
+						this.fromProperty = value;
+						this.updateConflicts();
+					});
+			});
+
+		// Target property
+		new Setting(contentEl)
+			.setName('New name')
+			.setDesc('Enter the new property name.')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter name')
+					.onChange(value => {
+						this.toProperty = value.trim();
+						this.updateConflicts();
+					});
+			});
+
+		// Conflict handling
+		new Setting(contentEl)
+			.setName('When the new name already exists')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('skip', 'Skip the file')
+					.addOption('overwrite', 'Overwrite the existing value')
+					.setValue(this.overwrite ? 'overwrite' : 'skip')
+					.onChange(value => {
+						this.overwrite = value === 'overwrite';
+					});
+			});
+
+		this.conflictsEl = contentEl.createDiv();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const applyBtn = buttonContainer.createEl('button');
+		applyBtn.setText('Apply');
+		applyBtn.addClass('mod-cta');
+		applyBtn.addEventListener('click', () => {
+			void (async () => {
+				if (this.fromProperty && this.toProperty && this.fromProperty !== this.toProperty) {
+					await this.applyChanges();
+					this.close();
+				}
+			})();
+		});
+	}
+
+	/**
+	 * Report files that already have the target property
+	 */
+	private updateConflicts(): void {
+		if (!this.conflictsEl) return;
+		this.conflictsEl.empty();
+		if (!this.fromProperty || !this.toProperty || this.fromProperty === this.toProperty) return;
+
+		const conflicts = this.bulkOps.findRenamePropertyConflicts(this.files, this.fromProperty, this.toProperty);
+		if (conflicts.length === 0) return;
+
+		this.conflictsEl.createEl('p', {
+			text: `${conflicts.length} file${conflicts.length !== 1 ? 's' : ''} already ${conflicts.length !== 1 ? 'have' : 'has'} ${this.toProperty}:`,
+			cls: 'bases-cms-deletion-warning'
+		});
+		const list = this.conflictsEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
+		for (const filePath of conflicts.slice(0, 20)) {
+			list.createEl('li', { text: filePath });
+		}
+		if (conflicts.length > 20) {
+			list.createEl('li', {
+				text: `... and ${conflicts.length - 20} more file${conflicts.length - 20 !== 1 ? 's' : ''}`
+			});
+		}
+	}
+
+	private async applyChanges(): Promise<void> {
+		const { fromProperty, toProperty, overwrite } = this;
+		const run = () => this.bulkOps.renameProperty(this.files, fromProperty, toProperty, overwrite);
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				`rename ${fromProperty} to ${toProperty} in`,
+				() => this.bulkOps.previewRenameProperty(this.files, fromProperty, toProperty, overwrite),
+				run
+			);
+		} else {
+			await run();
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,211 @@
+/**
+ * Replace Body Modal
+ * Modal for finding and replacing text in the content of selected files,
+ * showing the matches in each file before anything is written
+ */
+
+import { Modal, App, Setting, Notice } from 'obsidian';
+import { BulkOperations, type BodyMatchReport } from '../utils/bulk-operations';
+import { buildSearchPattern, type BodySearchOptions } from '../utils/search-replace';
+
+/** Maximum number of files listed in the match preview */
+const MAX_PREVIEW_FILES = 20;
+/** Maximum number of snippets shown per file */
+const MAX_SNIPPETS = 5;
+
+export class ReplaceBodyModal extends Modal {
+	private files: string[];
+	private options: BodySearchOptions = {
+		search: '',
+		replacement: '',
+		useRegex: false,
+		caseSensitive: true,
+		skipCodeBlocks: true,
+	};
+	private bulkOps: BulkOperations;
+	private previewEl: HTMLElement | null = null;
+	private applyBtn: HTMLButtonElement | null = null;
+	/** Options the current preview was built for; applying needs an up-to-date preview */
+	private previewedOptions: string | null = null;
+
+	constructor(app: App, files: string[], bulkOps?: BulkOperations) {
+		super(app);
+		this.files = files;
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Replace in content').setHeading();
+		contentEl.createEl('p', { text: `Replacing text in the content of ${this.files.length} file${this.files.length !== 1 ? 's' : ''}` });
+
+		// Search
+		new Setting(contentEl)
+			.setName('Find')
+			.setDesc('Text or regular expression to search for.')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter search')
+					.onChange(value => {
+						this.options.search = value;
+						this.resetPreview();
+					});
+			});
+
+		// Replacement
+		new Setting(contentEl)
+			.setName('Replace with')
+			.setDesc('Replacement text. With regular expressions, use $1, $2 for capture groups.')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter replacement')
+					.onChange(value => {
+						this.options.replacement = value;
+						this.resetPreview();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Use regular expression')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.options.useRegex)
+					.onChange(value => {
+						this.options.useRegex = value;
+						this.resetPreview();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Case sensitive')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.options.caseSensitive)
+					.onChange(value => {
+						this.options.caseSensitive = value;
+						this.resetPreview();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Skip code blocks')
+			.setDesc('Leave text inside fenced code blocks unchanged.')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.options.skipCodeBlocks)
+					.onChange(value => {
+						this.options.skipCodeBlocks = value;
+						this.resetPreview();
+					});
+			});
+
+		this.previewEl = contentEl.createDiv();
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		this.applyBtn = buttonContainer.createEl('button');
+		this.applyBtn.setText('Find matches');
+		this.applyBtn.addClass('mod-cta');
+		this.applyBtn.addEventListener('click', () => {
+			void (async () => {
+				if (!this.options.search) return;
+				try {
+					buildSearchPattern(this.options);
+				} catch {
+					new Notice('Invalid regular expression');
+					return;
+				}
+
+				// First show what would be replaced, then replace on the next click
+				const key = JSON.stringify(this.options);
+				if (this.previewedOptions !== key) {
+					await this.updatePreview();
+					return;
+				}
+
+				await this.bulkOps.replaceInBodies(this.files, { ...this.options });
+				this.close();
+			})();
+		});
+	}
+
+	/**
+	 * Discard the preview after the search changes
+	 */
+	private resetPreview(): void {
+		this.previewedOptions = null;
+		this.previewEl?.empty();
+		this.applyBtn?.setText('Find matches');
+		if (this.applyBtn) this.applyBtn.disabled = false;
+	}
+
+	/**
+	 * Show the match count and context snippets of each file
+	 */
+	private async updatePreview(): Promise<void> {
+		if (!this.previewEl || !this.applyBtn) return;
+		const key = JSON.stringify(this.options);
+		const reports = await this.bulkOps.findBodyMatches(this.files, this.options, MAX_SNIPPETS);
+		// The search changed while the files were being read
+		if (key !== JSON.stringify(this.options)) return;
+
+		this.previewedOptions = key;
+		this.previewEl.empty();
+
+		const total = reports.reduce((sum, report) => sum + report.count, 0);
+		if (total === 0) {
+			this.previewEl.createEl('p', { text: 'No matches found in the selected files.' });
+			this.applyBtn.disabled = true;
+			return;
+		}
+
+		this.previewEl.createEl('p', {
+			text: `${total} match${total !== 1 ? 'es' : ''} in ${reports.length} file${reports.length !== 1 ? 's' : ''}`
+		});
+		const listEl = this.previewEl.createDiv('bases-cms-change-preview');
+		for (const report of reports.slice(0, MAX_PREVIEW_FILES)) {
+			this.renderReport(listEl, report);
+		}
+		if (reports.length > MAX_PREVIEW_FILES) {
+			const remaining = reports.length - MAX_PREVIEW_FILES;
+			listEl.createEl('p', { text: `... and ${remaining} more file${remaining !== 1 ? 's' : ''}` });
+		}
+
+		this.applyBtn.setText(`Replace ${total} match${total !== 1 ? 'es' : ''}`);
+	}
+
+	private renderReport(container: HTMLElement, report: BodyMatchReport): void {
+		const fileEl = container.createDiv('bases-cms-change-preview-file');
+		fileEl.createDiv({
+			cls: 'bases-cms-change-preview-path',
+			text: `${report.path} (${report.count} match${report.count !== 1 ? 'es' : ''})`
+		});
+
+		const list = fileEl.createEl('ul', { cls: 'bases-cms-change-preview-list' });
+		for (const snippet of report.snippets) {
+			const li = list.createEl('li', { cls: 'bases-cms-body-match' });
+			li.createSpan({ cls: 'bases-cms-change-preview-key', text: `Line ${snippet.line}: ` });
+			li.appendText(snippet.before);
+			li.createSpan({ cls: 'bases-cms-change-preview-old', text: snippet.match });
+			li.createSpan({ cls: 'bases-cms-change-preview-new', text: snippet.replacement });
+			li.appendText(snippet.after);
+		}
+		if (report.count > report.snippets.length) {
+			const remaining = report.count - report.snippets.length;
+			list.createEl('li', { text: `... and ${remaining} more match${remaining !== 1 ? 'es' : ''}` });
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
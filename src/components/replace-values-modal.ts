@@ -0,0 +1,156 @@
+/**
+ * Replace Values Modal
+ * Modal for finding and replacing text in property values of selected files
+ */
+
+import { Modal, App, Setting, TFile, Notice } from 'obsidian';
+import { BulkOperations } from '../utils/bulk-operations';
+import { buildSearchPattern, type SearchOptions } from '../utils/search-replace';
+import type { ConfirmOperation } from './bulk-operation-confirm';
+
+export class ReplaceValuesModal extends Modal {
+	private files: string[];
+	private property: string = '';
+	private options: SearchOptions = {
+		search: '',
+		replacement: '',
+		useRegex: false,
+		caseSensitive: true,
+	};
+	private bulkOps: BulkOperations;
+	private confirmOperation?: ConfirmOperation;
+
+	constructor(app: App, files: string[], bulkOps?: BulkOperations, confirmOperation?: ConfirmOperation) {
+		super(app);
+		this.files = files;
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.confirmOperation = confirmOperation;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Replace values').setHeading();
+		contentEl.createEl('p', { text: `Replacing property values in ${this.files.length} file${this.files.length !== 1 ? 's' : ''}` });
+
+		// Get all unique properties from selected files
+		const allProperties = new Set<string>();
+		for (const filePath of this.files) {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (file instanceof TFile) {
+				const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				if (frontmatter) {
+					for (const key in frontmatter) {
+						allProperties.add(key);
+					}
+				}
+			}
+		}
+
+		// Property
+		new Setting(contentEl)
+			.setName('Property')
+			.setDesc('Property to search in.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'All properties');
+				for (const prop of Array.from(allProperties).sort()) {
+					dropdown.addOption(prop, prop);
+				}
+				dropdown
+					.setValue(this.property)
+					.onChange(value => {
+						this.property = value;
+					});
+			});
+
+		// Search
+		new Setting(contentEl)
+			.setName('Find')
+			.setDesc('Text or regular expression to search for.')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter search')
+					.onChange(value => {
+						this.options.search = value;
+					});
+			});
+
+		// Replacement
+		new Setting(contentEl)
+			.setName('Replace with')
+			.setDesc('Replacement text. With regular expressions, use $1, $2 for capture groups.')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter replacement')
+					.onChange(value => {
+						this.options.replacement = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Use regular expression')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.options.useRegex)
+					.onChange(value => {
+						this.options.useRegex = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Case sensitive')
+			.addToggle(toggle => {
+				toggle
+					.setValue(this.options.caseSensitive)
+					.onChange(value => {
+						this.options.caseSensitive = value;
+					});
+			});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const applyBtn = buttonContainer.createEl('button');
+		applyBtn.setText('Apply');
+		applyBtn.addClass('mod-cta');
+		applyBtn.addEventListener('click', () => {
+			void (async () => {
+				if (!this.options.search) return;
+				try {
+					buildSearchPattern(this.options);
+				} catch {
+					new Notice('Invalid regular expression');
+					return;
+				}
+				await this.applyChanges();
+				this.close();
+			})();
+		});
+	}
+
+	private async applyChanges(): Promise<void> {
+		const property = this.property || null;
+		const options = { ...this.options };
+		const run = () => this.bulkOps.replaceInProperties(this.files, property, options);
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				`replace "${options.search}" in`,
+				() => this.bulkOps.previewReplaceInProperties(this.files, property, options),
+				run
+			);
+		} else {
+			await run();
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -1,22 +1,42 @@
 /**
  * Set Property Modal
- * Modal for setting a property value on selected files
+ * Modal for setting a property value on selected files,
+ * or adding, removing, replacing, deduping and sorting the items of a list property
  */
 
-import { Modal, App, Setting } from 'obsidian';
-import { BulkOperations } from '../utils/bulk-operations';
+import { Modal, App, Setting, TFile, Notice } from 'obsidian';
+import { BulkOperations, cleanPropertyName } from '../utils/bulk-operations';
+import type { ListEditMode } from '../utils/frontmatter';
+import { hasTemplateExpressions, validateTemplate } from '../utils/value-template';
+import type { CMSSettings } from '../shared/data-transform';
+import type { ConfirmOperation } from './bulk-operation-confirm';
+
+/** Set overwrites the value; the other modes edit list items */
+type SetPropertyMode = 'set' | ListEditMode;
+
+/** Number of files evaluated in the template preview */
+const MAX_TEMPLATE_PREVIEW_FILES = 3;
 
 export class SetPropertyModal extends Modal {
 	private files: string[];
 	private propertyName: string = '';
 	private propertyValue: string = '';
 	private propertyType: string = 'text';
+	private mode: SetPropertyMode = 'set';
+	private replacement: string = '';
 	private bulkOps: BulkOperations;
+	private confirmOperation?: ConfirmOperation;
+	private settings?: CMSSettings;
+	private previewEl: HTMLElement | null = null;
+	/** Incremented on every preview update so stale async results are dropped */
+	private previewVersion = 0;
 
-	constructor(app: App, files: string[]) {
+	constructor(app: App, files: string[], bulkOps?: BulkOperations, confirmOperation?: ConfirmOperation, settings?: CMSSettings) {
 		super(app);
 		this.files = files;
-		this.bulkOps = new BulkOperations(app);
+		this.bulkOps = bulkOps ?? new BulkOperations(app);
+		this.confirmOperation = confirmOperation;
+		this.settings = settings;
 	}
 
 	onOpen(): void {
@@ -38,8 +58,43 @@ export class SetPropertyModal extends Modal {
 					});
 			});
 
-		// Property type
+		// Mode
+		let typeSetting: Setting;
+		let valueSetting: Setting;
+		let replacementSetting: Setting;
+		const updateVisibility = () => {
+			typeSetting.settingEl.toggleClass('bases-cms-setting-hidden', this.mode !== 'set');
+			valueSetting.settingEl.toggleClass('bases-cms-setting-hidden', this.mode === 'dedupe' || this.mode === 'sort');
+			replacementSetting.settingEl.toggleClass('bases-cms-setting-hidden', this.mode !== 'replace');
+			valueSetting.setName(this.mode === 'set' ? 'Property value' : 'Items');
+			valueSetting.setDesc(this.mode === 'set'
+				? 'Enter the property value. Expressions in double braces are computed for each file, for example {{title | slugify}}, {{now:YYYY-MM-DD}} or {{snippet | truncate:155}}.'
+				: this.mode === 'replace'
+					? 'Items to replace (comma-separated).'
+					: 'Enter items (comma-separated).');
+		};
+
 		new Setting(contentEl)
+			.setName('Mode')
+			.setDesc('Overwrite the value, or edit the items of a list property without touching the others.')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('set', 'Set value')
+					.addOption('add', 'Add items')
+					.addOption('remove', 'Remove items')
+					.addOption('replace', 'Replace items')
+					.addOption('dedupe', 'Remove duplicates')
+					.addOption('sort', 'Sort items')
+					.setValue(this.mode)
+					.onChange(value => {
+						this.mode = value as SetPropertyMode;
+						updateVisibility();
+						void this.updateTemplatePreview();
+					});
+			});
+
+		// Property type
+		typeSetting = new Setting(contentEl)
 			.setName('Property type')
 			.setDesc('Select the property type.')
 			.addDropdown(dropdown => {
@@ -51,11 +106,12 @@ export class SetPropertyModal extends Modal {
 					.setValue(this.propertyType)
 					.onChange(value => {
 						this.propertyType = value;
+						void this.updateTemplatePreview();
 					});
 			});
 
 		// Property value
-		new Setting(contentEl)
+		valueSetting = new Setting(contentEl)
 			.setName('Property value')
 			.setDesc('Enter the property value.')
 			.addText(text => {
@@ -63,9 +119,27 @@ export class SetPropertyModal extends Modal {
 					.setPlaceholder('Enter value')
 					.onChange(value => {
 						this.propertyValue = value;
+						void this.updateTemplatePreview();
+					});
+			});
+
+		// Replacement item
+		replacementSetting = new Setting(contentEl)
+			.setName('Replace with')
+			.setDesc('Item that takes the place of the replaced items.')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter item')
+					.onChange(value => {
+						this.replacement = value;
 					});
 			});
 
+		updateVisibility();
+
+		// Evaluated template values for the first few files
+		this.previewEl = contentEl.createDiv();
+
 		// Buttons
 		const buttonContainer = contentEl.createDiv();
 		buttonContainer.addClass('bases-cms-modal-button-container');
@@ -79,7 +153,12 @@ export class SetPropertyModal extends Modal {
 		applyBtn.addClass('mod-cta');
 		applyBtn.addEventListener('click', () => {
 			void (async () => {
-				if (this.propertyName && this.propertyValue) {
+				if (this.propertyName && (this.propertyValue || this.mode === 'dedupe' || this.mode === 'sort')) {
+					const error = this.mode === 'set' ? validateTemplate(this.propertyValue) : null;
+					if (error) {
+						new Notice(error);
+						return;
+					}
 					await this.applyChanges();
 					this.close();
 				}
@@ -88,18 +167,130 @@ export class SetPropertyModal extends Modal {
 	}
 
 	private async applyChanges(): Promise<void> {
+		if (this.mode !== 'set') {
+			await this.applyListEdit(this.mode);
+			return;
+		}
+
 		let value: unknown = this.propertyValue;
 
-		// Convert value based on type
-		if (this.propertyType === 'number') {
-			value = Number(this.propertyValue);
-		} else if (this.propertyType === 'checkbox') {
-			value = this.propertyValue.toLowerCase() === 'true' || this.propertyValue === '1';
-		} else if (this.propertyType === 'date') {
-			value = this.propertyValue; // Keep as string for date
+		// Convert value based on type (templates are evaluated and converted per file by setProperty)
+		if (!hasTemplateExpressions(this.propertyValue)) {
+			if (this.propertyType === 'number') {
+				value = Number(this.propertyValue);
+			} else if (this.propertyType === 'checkbox') {
+				value = this.propertyValue.toLowerCase() === 'true' || this.propertyValue === '1';
+			} else if (this.propertyType === 'date') {
+				value = this.propertyValue; // Keep as string for date
+			}
+		}
+
+		const run = () => this.bulkOps.setProperty(this.files, this.propertyName, value, this.propertyType, this.settings);
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				`set ${this.propertyName} on`,
+				() => this.bulkOps.previewSetProperty(this.files, this.propertyName, value, this.propertyType, this.settings),
+				run
+			);
+		} else {
+			await run();
 		}
+	}
+
+	/**
+	 * Show what a template value evaluates to for the first few selected files
+	 */
+	private async updateTemplatePreview(): Promise<void> {
+		if (!this.previewEl) return;
+		const version = ++this.previewVersion;
+		const template = this.propertyValue;
 
-		await this.bulkOps.setProperty(this.files, this.propertyName, value, this.propertyType);
+		if (this.mode !== 'set' || !hasTemplateExpressions(template)) {
+			this.previewEl.empty();
+			return;
+		}
+
+		const error = validateTemplate(template);
+		const rows: { name: string; value: string; error?: boolean }[] = [];
+		if (!error) {
+			for (const filePath of this.files.slice(0, MAX_TEMPLATE_PREVIEW_FILES)) {
+				const file = this.app.vault.getAbstractFileByPath(filePath);
+				if (!(file instanceof TFile)) continue;
+				try {
+					const value = await this.bulkOps.evaluateSetValue(file, template, this.propertyType, this.settings);
+					rows.push({ name: file.basename, value: typeof value === 'string' ? value : JSON.stringify(value) });
+				} catch (evaluationError) {
+					// The file is skipped when setting
+					const message = evaluationError instanceof Error ? evaluationError.message : String(evaluationError);
+					rows.push({ name: file.basename, value: `Skipped: ${message}`, error: true });
+				}
+			}
+		}
+		// A newer edit started its own preview while this one was loading
+		if (version !== this.previewVersion) return;
+
+		this.previewEl.empty();
+		if (error) {
+			this.previewEl.createEl('p', { text: error, cls: 'bases-cms-deletion-warning' });
+			return;
+		}
+
+		const wrapper = this.previewEl.createDiv('bases-cms-rename-preview');
+		const table = wrapper.createEl('table', { cls: 'bases-cms-rename-preview-table' });
+		const header = table.createEl('thead').createEl('tr');
+		header.createEl('th', { text: 'File' });
+		header.createEl('th', { text: 'Value' });
+
+		const body = table.createEl('tbody');
+		for (const row of rows) {
+			const tr = body.createEl('tr');
+			tr.createEl('td', { text: row.name });
+			const valueCell = tr.createEl('td', { text: row.value || '(empty)' });
+			if (row.error) {
+				valueCell.addClass('bases-cms-deletion-warning');
+			} else if (!row.value) {
+				valueCell.addClass('bases-cms-rename-preview-unchanged');
+			}
+		}
+		if (this.files.length > MAX_TEMPLATE_PREVIEW_FILES) {
+			const remaining = this.files.length - MAX_TEMPLATE_PREVIEW_FILES;
+			body.createEl('tr').createEl('td', {
+				text: `... and ${remaining} more file${remaining !== 1 ? 's' : ''}`,
+				attr: { colspan: '2' }
+			});
+		}
+	}
+
+	private async applyListEdit(mode: ListEditMode): Promise<void> {
+		const edit = {
+			mode,
+			items: this.propertyValue
+				.split(',')
+				.map(item => item.trim())
+				.filter(item => item.length > 0),
+			replacement: this.replacement,
+		};
+		if ((mode === 'add' || mode === 'remove' || mode === 'replace') && edit.items.length === 0) return;
+
+		const property = cleanPropertyName(this.propertyName);
+		const operationNames: Record<ListEditMode, string> = {
+			add: `add items to ${property} on`,
+			remove: `remove items from ${property} on`,
+			replace: `replace items in ${property} on`,
+			dedupe: `remove duplicates from ${property} on`,
+			sort: `sort ${property} on`,
+		};
+
+		const run = () => this.bulkOps.editListProperty(this.files, this.propertyName, edit);
+		if (this.confirmOperation) {
+			await this.confirmOperation(
+				operationNames[mode],
+				() => this.bulkOps.previewEditListProperty(this.files, this.propertyName, edit),
+				run
+			);
+		} else {
+			await run();
+		}
 	}
 
 	onClose(): void {
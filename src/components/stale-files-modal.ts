@@ -0,0 +1,133 @@
+/**
+ * Stale Files Modal
+ * Asks what to do with selected files that were modified after they were selected,
+ * before a bulk operation writes to them
+ */
+
+import { Modal, App, Setting, TFile, moment } from 'obsidian';
+
+/** Maximum number of files listed */
+const MAX_LISTED_FILES = 50;
+
+export class StaleFilesModal extends Modal {
+	private files: TFile[];
+	private label: string;
+	private onChoose: (skip: Set<string> | null) => void;
+	private chosen = false;
+	/** Files to overwrite when reviewing file by file */
+	private overwrite = new Set<string>();
+
+	/**
+	 * @param onChoose - Called once with the paths to skip, or null when the operation is cancelled
+	 */
+	constructor(app: App, files: TFile[], label: string, onChoose: (skip: Set<string> | null) => void) {
+		super(app);
+		this.files = files;
+		this.label = label;
+		this.onChoose = onChoose;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.empty();
+		new Setting(contentEl).setName('Files changed since selection').setHeading();
+		contentEl.createEl('p', {
+			text: `${this.files.length} of the files for "${this.label}" ${this.files.length !== 1 ? 'were' : 'was'} modified after ${this.files.length !== 1 ? 'they were' : 'it was'} selected. Writing to ${this.files.length !== 1 ? 'them' : 'it'} now could overwrite those edits.`,
+			cls: 'bases-cms-deletion-warning'
+		});
+
+		const list = contentEl.createEl('ul', { cls: 'bases-cms-deletion-list' });
+		this.renderList(list, false);
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.addClass('bases-cms-modal-button-container');
+
+		const cancelBtn = buttonContainer.createEl('button');
+		cancelBtn.setText('Cancel');
+		cancelBtn.addEventListener('click', () => this.close());
+
+		const reviewBtn = buttonContainer.createEl('button');
+		reviewBtn.setText('Review');
+
+		const skipBtn = buttonContainer.createEl('button');
+		skipBtn.setText('Skip changed files');
+		skipBtn.addClass('mod-cta');
+		skipBtn.addEventListener('click', () => {
+			this.choose(new Set(this.files.map(file => file.path)));
+		});
+
+		const overwriteBtn = buttonContainer.createEl('button');
+		overwriteBtn.setText('Overwrite');
+		overwriteBtn.addClass('mod-warning');
+		overwriteBtn.addEventListener('click', () => {
+			this.choose(new Set());
+		});
+
+		// Review: choose file by file, with links to open each file first
+		reviewBtn.addEventListener('click', () => {
+			list.before(createEl('p', { text: 'Check the files to overwrite. The others are skipped.' }));
+			this.renderList(list, true);
+			reviewBtn.remove();
+			skipBtn.remove();
+			overwriteBtn.remove();
+
+			const continueBtn = buttonContainer.createEl('button');
+			continueBtn.setText('Continue');
+			continueBtn.addClass('mod-cta');
+			continueBtn.addEventListener('click', () => {
+				this.choose(new Set(this.files.filter(file => !this.overwrite.has(file.path)).map(file => file.path)));
+			});
+		});
+	}
+
+	private renderList(list: HTMLElement, review: boolean): void {
+		list.empty();
+		for (const file of this.files.slice(0, MAX_LISTED_FILES)) {
+			const li = list.createEl('li');
+			if (review) {
+				const checkbox = li.createEl('input', { type: 'checkbox' });
+				checkbox.checked = this.overwrite.has(file.path);
+				checkbox.setAttribute('aria-label', `Overwrite ${file.path}`);
+				checkbox.addEventListener('change', () => {
+					if (checkbox.checked) {
+						this.overwrite.add(file.path);
+					} else {
+						this.overwrite.delete(file.path);
+					}
+				});
+				const link = li.createEl('a', { text: file.path, href: '#' });
+				link.addEventListener('click', (evt) => {
+					evt.preventDefault();
+					void this.app.workspace.getLeaf('tab').openFile(file);
+				});
+			} else {
+				li.appendText(file.path);
+			}
+			li.appendText(` (modified ${moment(file.stat.mtime).fromNow()})`);
+		}
+		if (this.files.length > MAX_LISTED_FILES) {
+			const remaining = this.files.length - MAX_LISTED_FILES;
+			list.createEl('li', {
+				text: `... and ${remaining} more file${remaining !== 1 ? 's' : ''}${review ? ', which will be skipped' : ''}`
+			});
+		}
+	}
+
+	private choose(skip: Set<string>): void {
+		this.chosen = true;
+		this.onChoose(skip);
+		this.close();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		// Closing without a choice cancels the operation
+		if (!this.chosen) {
+			this.chosen = true;
+			this.onChoose(null);
+		}
+	}
+}
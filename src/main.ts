@@ -3,15 +3,32 @@ import { BasesCMSSettingTab } from './settings';
 import { BasesCMSView } from './views/cms-view';
 import { BasesCMSSettings, DEFAULT_SETTINGS } from './types';
 import { registerBasesCMSView } from './utils/view-registration';
+import { BulkJournal } from './utils/bulk-journal';
+import { BulkJobRunner } from './utils/bulk-job-runner';
+import { registerCommands } from './utils/commands';
+import { ScheduledPublisher } from './utils/scheduled-publisher';
 
 export default class BasesCMSPlugin extends Plugin {
 	settings!: BasesCMSSettings;
 	activeViews: Set<BasesCMSView> = new Set();
 	registrationTimeout: number | null = null;
+	bulkJournal!: BulkJournal;
+	bulkJobRunner!: BulkJobRunner;
+	scheduledPublisher!: ScheduledPublisher;
 
 	async onload() {
 		await this.loadSettings();
 
+		// Undo/redo history for bulk operations (kept in memory for the session)
+		this.bulkJournal = new BulkJournal(this.app);
+
+		// Runs bulk operations with progress, cancellation and per-file locking
+		this.bulkJobRunner = new BulkJobRunner(this.app, () => this.refreshAllViews());
+
+		// Publishes drafts once their publish date has passed
+		this.scheduledPublisher = new ScheduledPublisher(this);
+		this.scheduledPublisher.start();
+
 		// Register settings tab
 		this.addSettingTab(new BasesCMSSettingTab(this.app, this));
 
@@ -19,6 +36,9 @@ export default class BasesCMSPlugin extends Plugin {
 		// Graceful degradation: if Base plugin not installed, this will simply do nothing
 		// On mobile, Bases plugin may not be loaded yet, so we wait a bit
 		registerBasesCMSView(this);
+
+		// Register command palette entries
+		registerCommands(this);
 	}
 
 	onunload() {
@@ -66,6 +86,17 @@ export default class BasesCMSPlugin extends Plugin {
 		});
 	}
 
+	/**
+	 * Re-render all active CMS views (e.g. after files changed outside a view's own actions)
+	 */
+	refreshAllViews(): void {
+		this.activeViews.forEach(view => {
+			if (view && typeof view.onDataUpdated === 'function') {
+				view.onDataUpdated();
+			}
+		});
+	}
+
 	/**
 	 * Remove a view from tracking when it's closed
 	 */
@@ -1,13 +1,18 @@
-import { PluginSettingTab, Setting, App, Plugin } from 'obsidian';
-import { BasesCMSSettings } from './types';
+import { PluginSettingTab, Setting, App } from 'obsidian';
+import type BasesCMSPlugin from './main';
+import type { BulkMacro } from './types';
 import { CommandPickerModal } from './components/command-picker-modal';
 import { IconPickerModal } from './components/icon-picker-modal';
+import { PublishLogModal } from './components/publish-log-modal';
 import { createSettingsGroup } from './utils/settings-compat';
+import { MacroEditorModal } from './components/macro-editor-modal';
+import { describeMacroStep } from './utils/macro-operations';
+import { registerMacroCommands } from './utils/commands';
 
 export class BasesCMSSettingTab extends PluginSettingTab {
-	plugin: Plugin & { settings: BasesCMSSettings };
+	plugin: BasesCMSPlugin;
 
-	constructor(app: App, plugin: Plugin & { settings: BasesCMSSettings }) {
+	constructor(app: App, plugin: BasesCMSPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
 	}
@@ -23,6 +28,17 @@ export class BasesCMSSettingTab extends PluginSettingTab {
 		}
 	}
 
+	/**
+	 * Save edited macros and update their toolbar buttons and commands
+	 */
+	private async saveMacros(macros: BulkMacro[]): Promise<void> {
+		this.plugin.settings.macros = macros;
+		await this.plugin.saveData(this.plugin.settings);
+		registerMacroCommands(this.plugin);
+		this.refreshActiveToolbars();
+		this.display();
+	}
+
 	display(): void {
 		const { containerEl } = this;
 
@@ -140,6 +156,54 @@ export class BasesCMSSettingTab extends PluginSettingTab {
 				});
 		});
 
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show apply template button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the apply template button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarTemplate);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarTemplate = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show edit dates button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the edit dates button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarDates);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarDates = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show edit in grid button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the edit in grid button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarGrid);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarGrid = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
 		toolbarButtonsGroup.addSetting(setting => {
 			setting
 				.setName('Show remove button')
@@ -156,6 +220,204 @@ export class BasesCMSSettingTab extends PluginSettingTab {
 				});
 		});
 
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show rename button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the rename property button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarRenameProperty);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarRenameProperty = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show convert button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the convert property type button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarConvert);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarConvert = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show replace button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the find and replace values button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarReplace);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarReplace = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show replace text button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the replace text button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarReplaceBody);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarReplaceBody = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show normalize frontmatter button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the normalize frontmatter button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarNormalize);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarNormalize = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show move button')
+				.setDesc('Display the move button in the bulk toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarMove);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarMove = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show rename files button')
+				.setDesc('Display the rename files button in the bulk toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarRenameFiles);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarRenameFiles = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show duplicate button')
+				.setDesc('Display the duplicate button in the bulk toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarDuplicate);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarDuplicate = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show copy as button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the copy as button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarCopyAs);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarCopyAs = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show export button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the export button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarExport);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarExport = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show archive button')
+				.setDesc('Display the archive button in the bulk toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarArchive);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarArchive = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show unarchive button')
+				.setDesc('Display the unarchive button in the bulk toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarUnarchive);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarUnarchive = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
+		toolbarButtonsGroup.addSetting(setting => {
+			setting
+				.setName('Show undo button')
+				// False positive: Already in sentence case
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setDesc('Display the undo last bulk operation button in the CMS toolbar.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.showToolbarUndo);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.showToolbarUndo = value;
+						await this.plugin.saveData(this.plugin.settings);
+						this.refreshActiveToolbars();
+					});
+				});
+		});
+
 		toolbarButtonsGroup.addSetting(setting => {
 			setting
 				.setName('Show delete button')
@@ -172,6 +434,51 @@ export class BasesCMSSettingTab extends PluginSettingTab {
 				});
 		});
 
+		// Macro settings
+		const macrosGroup = createSettingsGroup(containerEl, 'Macros');
+
+		for (const macro of this.plugin.settings.macros) {
+			macrosGroup.addSetting(setting => {
+				setting
+					.setName(macro.name)
+					.setDesc(macro.steps.length > 0 ? macro.steps.map(describeMacroStep).join(' → ') : 'No steps')
+					.addExtraButton(button => {
+						button
+							.setIcon('pencil')
+							.setTooltip('Edit macro')
+							.onClick(() => {
+								new MacroEditorModal(this.app, macro, (updated) => this.saveMacros(
+									this.plugin.settings.macros.map(existing => existing.id === updated.id ? updated : existing)
+								)).open();
+							});
+					})
+					.addExtraButton(button => {
+						button
+							.setIcon('trash-2')
+							.setTooltip('Delete macro')
+							.onClick(() => {
+								void this.saveMacros(this.plugin.settings.macros.filter(existing => existing.id !== macro.id));
+							});
+					});
+			});
+		}
+
+		macrosGroup.addSetting(setting => {
+			setting
+				.setName('Add macro')
+				.setDesc('Macros run a list of steps against the selection as one undoable operation. Each macro gets a toolbar button and a command. Commands run once after the other steps.')
+				.addButton(button => {
+					button
+						.setButtonText('Add macro')
+						.onClick(() => {
+							const macro: BulkMacro = { id: Date.now().toString(36), name: '', icon: 'zap', steps: [] };
+							new MacroEditorModal(this.app, macro, (created) => this.saveMacros(
+								[...this.plugin.settings.macros, created]
+							)).open();
+						});
+				});
+		});
+
 		// Deletion settings
 		const deletionsGroup = createSettingsGroup(containerEl, 'Deletions');
 
@@ -231,6 +538,103 @@ export class BasesCMSSettingTab extends PluginSettingTab {
 				});
 		});
 
+		// Duplicate settings
+		const duplicatesGroup = createSettingsGroup(containerEl, 'Duplicates');
+
+		duplicatesGroup.addSetting(setting => {
+			setting
+				.setName('Duplicate name pattern')
+				.setDesc('Name for copies. Supports the same tokens as rename files, e.g. {basename}, {title}, {slug} and {date:YYYY-MM-DD}. For folder-based content the pattern names the copied folder.')
+				.addText(text => {
+					text.setPlaceholder('{basename} copy');
+					text.setValue(this.plugin.settings.duplicateNamePattern);
+					text.onChange(async (value) => {
+						this.plugin.settings.duplicateNamePattern = value;
+						await this.plugin.saveData(this.plugin.settings);
+					});
+				});
+		});
+
+		duplicatesGroup.addSetting(setting => {
+			setting
+				.setName('Mark copies as draft')
+				.setDesc('Set copies to draft using the draft settings of the current view.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.duplicateResetDraft);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.duplicateResetDraft = value;
+						await this.plugin.saveData(this.plugin.settings);
+					});
+				});
+		});
+
+		duplicatesGroup.addSetting(setting => {
+			setting
+				.setName('Set date to today')
+				.setDesc('Set the date property of the current view to today on copies.')
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.duplicateResetDate);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.duplicateResetDate = value;
+						await this.plugin.saveData(this.plugin.settings);
+					});
+				});
+		});
+
+		duplicatesGroup.addSetting(setting => {
+			setting
+				.setName('Clear properties')
+				.setDesc('Comma-separated properties to empty on copies.')
+				.addText(text => {
+					// False positive: Placeholder text, not UI text
+					// eslint-disable-next-line obsidianmd/ui/sentence-case
+					text.setPlaceholder('slug, permalink');
+					text.setValue(this.plugin.settings.duplicateClearProperties);
+					text.onChange(async (value) => {
+						this.plugin.settings.duplicateClearProperties = value;
+						await this.plugin.saveData(this.plugin.settings);
+					});
+				});
+		});
+
+		// Scheduled publishing settings
+		const scheduledPublishingGroup = createSettingsGroup(containerEl, 'Scheduled publishing');
+
+		scheduledPublishingGroup.addSetting(setting => {
+			setting
+				.setName('Check interval')
+				.setDesc('How often, in minutes, to publish drafts whose publish date has passed. Set the publish date property in the draft status options of each view. Drafts are also checked on startup.')
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text.setPlaceholder('5');
+					text.setValue(String(this.plugin.settings.scheduledPublishInterval));
+					text.onChange(async (value) => {
+						const parsed = parseInt(value, 10);
+						if (isNaN(parsed) || parsed < 1) return;
+						this.plugin.settings.scheduledPublishInterval = parsed;
+						await this.plugin.saveData(this.plugin.settings);
+						this.plugin.scheduledPublisher.restartInterval();
+					});
+				});
+		});
+
+		scheduledPublishingGroup.addSetting(setting => {
+			setting
+				.setName('Publish log')
+				.setDesc(`${this.plugin.settings.publishLog.length} automatic publish${this.plugin.settings.publishLog.length !== 1 ? 'es' : ''} recorded.`)
+				.addButton(button => {
+					button
+						.setButtonText('View log')
+						.onClick(() => {
+							new PublishLogModal(this.app, this.plugin.settings.publishLog, async () => {
+								this.plugin.settings.publishLog = [];
+								await this.plugin.saveData(this.plugin.settings);
+								this.display();
+							}).open();
+						});
+				});
+		});
+
 		// Icon settings
 		const appearanceGroup = createSettingsGroup(containerEl, 'Appearance');
 
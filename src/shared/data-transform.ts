@@ -141,12 +141,22 @@ export interface CMSSettings {
 	draftStatusProperty: string;
 	draftStatusReverse: boolean;
 	draftStatusUseFilenamePrefix: boolean;
+	publishAtProperty: string;
+	expiresAtProperty: string;
+	expiredAction: 'flag' | 'confirm' | 'auto';
 	showTags: boolean;
 	tagsProperty: string;
 	maxTagsToShow: number;
 	customizeNewButton: boolean;
 	newNoteLocation: string;
 	hideQuickEditIcon: boolean;
+	archiveFolder: string;
+	archiveProperty: string;
+	archiveDateProperty: string;
+	archiveOriginProperty: string;
+	normalizeKeyOrder: string;
+	normalizeRemoveEmpty: boolean;
+	normalizeFormats: boolean;
 	cardSize: number;
 	imageAspectRatio: number;
 }
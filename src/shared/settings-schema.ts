@@ -76,12 +76,22 @@ export function readCMSSettings(
 		draftStatusProperty: (getConfig('draftStatusProperty') as string) || '',
 		draftStatusReverse: (getConfig('draftStatusReverse') as boolean) ?? false,
 		draftStatusUseFilenamePrefix: (getConfig('draftStatusUseFilenamePrefix') as boolean) ?? false,
+		publishAtProperty: (getConfig('publishAtProperty') as string) || '',
+		expiresAtProperty: (getConfig('expiresAtProperty') as string) || '',
+		expiredAction: (getConfig('expiredAction') as 'flag' | 'confirm' | 'auto') || 'confirm',
 		showTags: (getConfig('showTags') as boolean) ?? false,
 		tagsProperty: (getConfig('tagsProperty') as string) || '',
 		maxTagsToShow: (getConfig('maxTagsToShow') as number) ?? 3,
 		customizeNewButton: (getConfig('customizeNewButton') as boolean) ?? false,
 		newNoteLocation: (getConfig('newNoteLocation') as string) || '',
 		hideQuickEditIcon: (getConfig('hideQuickEditIcon') as boolean) ?? false,
+		archiveFolder: (getConfig('archiveFolder') as string) || '',
+		archiveProperty: (getConfig('archiveProperty') as string) || '',
+		archiveDateProperty: (getConfig('archiveDateProperty') as string) || '',
+		archiveOriginProperty: (getConfig('archiveOriginProperty') as string) || 'archivedFrom',
+		normalizeKeyOrder: (getConfig('normalizeKeyOrder') as string) || '',
+		normalizeRemoveEmpty: (getConfig('normalizeRemoveEmpty') as boolean) ?? true,
+		normalizeFormats: (getConfig('normalizeFormats') as boolean) ?? true,
 		cardSize: (getConfig('cardSize') as number) ?? 250,
 		imageAspectRatio: (getConfig('imageAspectRatio') as number) ?? 0.55,
 	};
@@ -253,6 +263,33 @@ export function getCMSViewOptions(): unknown[] {
 					displayName: 'Filename underscore prefix as draft indicator',
 					key: 'draftStatusUseFilenamePrefix',
 					default: false
+				},
+				{
+					type: 'property',
+					displayName: 'Publish date property',
+					description: 'Drafts are published automatically once this date has passed.',
+					key: 'publishAtProperty',
+					placeholder: 'Select property',
+					default: ''
+				},
+				{
+					type: 'property',
+					displayName: 'Expiry date property',
+					description: 'Published entries are flagged as expired once this date has passed.',
+					key: 'expiresAtProperty',
+					placeholder: 'Select property',
+					default: ''
+				},
+				{
+					type: 'dropdown',
+					displayName: 'Expired entries',
+					key: 'expiredAction',
+					options: {
+						'flag': 'Flag only',
+						'confirm': 'Ask to move back to draft',
+						'auto': 'Move back to draft automatically'
+					},
+					default: 'confirm'
 				}
 			]
 		},
@@ -566,6 +603,74 @@ export function getCMSViewOptions(): unknown[] {
 				}
 			]
 		},
+		// Archive group
+		{
+			type: 'group',
+			displayName: 'Archive',
+			items: [
+				{
+					type: 'text',
+					displayName: 'Archive folder',
+					description: 'Folder that archived entries are moved into. Leave empty to archive in place using the archive property only.',
+					key: 'archiveFolder',
+					placeholder: 'Archive',
+					default: ''
+				},
+				{
+					type: 'property',
+					displayName: 'Archive property',
+					description: 'Set to true when an entry is archived.',
+					key: 'archiveProperty',
+					placeholder: 'Select property',
+					default: ''
+				},
+				{
+					type: 'property',
+					displayName: 'Archive timestamp property',
+					description: 'Set to the date and time an entry was archived.',
+					key: 'archiveDateProperty',
+					placeholder: 'Select property',
+					default: ''
+				},
+				{
+					type: 'text',
+					displayName: 'Original location property',
+					description: 'Property that records where an entry was moved from, so unarchive can move it back.',
+					key: 'archiveOriginProperty',
+					placeholder: 'archivedFrom',
+					default: 'archivedFrom'
+				}
+			]
+		},
+		// Frontmatter normalization group
+		{
+			type: 'group',
+			displayName: 'Normalize frontmatter',
+			items: [
+				{
+					type: 'text',
+					displayName: 'Key order',
+					description: 'Comma-separated property names, in the order normalized frontmatter lists them. Other properties follow in their current order.',
+					key: 'normalizeKeyOrder',
+					placeholder: 'title, description, date, tags',
+					default: ''
+				},
+				{
+					type: 'toggle',
+					displayName: 'Remove empty properties',
+					description: 'Remove properties with no value, such as empty text and empty lists. False and 0 are kept.',
+					key: 'normalizeRemoveEmpty',
+					default: true
+				},
+				{
+					type: 'toggle',
+					displayName: 'Canonical formats',
+					description: 'Write list properties as lists, dates as ISO dates (YYYY-MM-DD), and checkboxes and "true" or "false" text as booleans.',
+					key: 'normalizeFormats',
+					default: true
+				}
+			]
+		},
 		// Behavior group
 		{
 			type: 'group',
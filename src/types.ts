@@ -11,6 +11,12 @@ export interface BasesCMSSettings {
 	deleteParentFolderFilename: string;
 	deleteUniqueAttachments: boolean;
 	
+	// Duplicate settings
+	duplicateNamePattern: string;
+	duplicateResetDraft: boolean;
+	duplicateResetDate: boolean;
+	duplicateClearProperties: string; // Comma-separated property names
+	
 	// Confirmation dialog settings
 	confirmDeletions: boolean;
 	
@@ -31,11 +37,84 @@ export interface BasesCMSSettings {
 	showToolbarPublish: boolean;
 	showToolbarTags: boolean;
 	showToolbarSet: boolean;
+	showToolbarTemplate: boolean;
+	showToolbarDates: boolean;
+	showToolbarGrid: boolean;
 	showToolbarRemove: boolean;
+	showToolbarRenameProperty: boolean;
+	showToolbarConvert: boolean;
+	showToolbarReplace: boolean;
+	showToolbarReplaceBody: boolean;
+	showToolbarNormalize: boolean;
+	showToolbarMove: boolean;
+	showToolbarRenameFiles: boolean;
+	showToolbarDuplicate: boolean;
+	showToolbarCopyAs: boolean;
+	showToolbarExport: boolean;
+	showToolbarArchive: boolean;
+	showToolbarUnarchive: boolean;
+	showToolbarUndo: boolean;
 	showToolbarDelete: boolean;
 	
 	// Appearance settings
 	forceStaticGifImages: boolean;
+	
+	// Scheduled publishing
+	scheduledPublishInterval: number; // Minutes between checks
+	scheduledPublishes: Record<string, ScheduledPublish>; // Keyed by file path, registered by CMS views
+	publishLog: PublishLogEntry[];
+	
+	// Macros
+	macros: BulkMacro[];
+	
+	// Export (last used options)
+	exportDestination: string;
+	exportRewriteLinks: boolean;
+	exportStripProperties: string; // Comma-separated property names
+}
+
+/**
+ * Draft settings of the view that scheduled a file, plus its publish date property
+ */
+export interface ScheduledPublish {
+	publishAtProperty: string;
+	draftStatusProperty: string;
+	draftStatusReverse: boolean;
+	draftStatusUseFilenamePrefix: boolean;
+}
+
+/**
+ * Record of a file published automatically by the scheduler
+ */
+export interface PublishLogEntry {
+	/** Path after publishing (filename prefix mode renames the file) */
+	path: string;
+	/** Publish date value the file was scheduled for */
+	scheduledFor: string;
+	/** Time the file was published (ms since epoch) */
+	publishedAt: number;
+}
+
+/**
+ * Single step of a bulk macro
+ */
+export type MacroStep =
+	| { type: 'set-property'; property: string; value: string }
+	| { type: 'remove-property'; property: string }
+	| { type: 'add-tags'; tags: string } // Comma-separated
+	| { type: 'remove-tags'; tags: string } // Comma-separated
+	| { type: 'set-draft'; draft: boolean }
+	| { type: 'move'; folder: string }
+	| { type: 'run-command'; commandId: string; commandName: string };
+
+/**
+ * Named list of steps run against the selection as one bulk operation
+ */
+export interface BulkMacro {
+	id: string;
+	name: string;
+	icon: string;
+	steps: MacroStep[];
 }
 
 export const DEFAULT_SETTINGS: BasesCMSSettings = {
@@ -43,6 +122,10 @@ export const DEFAULT_SETTINGS: BasesCMSSettings = {
 	deleteParentFolder: false,
 	deleteParentFolderFilename: 'index',
 	deleteUniqueAttachments: false,
+	duplicateNamePattern: '{basename} copy',
+	duplicateResetDraft: true,
+	duplicateResetDate: true,
+	duplicateClearProperties: 'slug',
 	confirmDeletions: true,
 	useHomeIcon: false,
 	enableQuickEdit: false,
@@ -56,9 +139,32 @@ export const DEFAULT_SETTINGS: BasesCMSSettings = {
 	showToolbarPublish: true,
 	showToolbarTags: true,
 	showToolbarSet: true,
+	showToolbarTemplate: true,
+	showToolbarDates: true,
+	showToolbarGrid: true,
 	showToolbarRemove: true,
+	showToolbarRenameProperty: true,
+	showToolbarConvert: true,
+	showToolbarReplace: true,
+	showToolbarReplaceBody: true,
+	showToolbarNormalize: true,
+	showToolbarMove: true,
+	showToolbarRenameFiles: true,
+	showToolbarDuplicate: true,
+	showToolbarCopyAs: true,
+	showToolbarExport: true,
+	showToolbarArchive: true,
+	showToolbarUnarchive: true,
+	showToolbarUndo: true,
 	showToolbarDelete: true,
 	forceStaticGifImages: false,
+	scheduledPublishInterval: 5,
+	scheduledPublishes: {},
+	publishLog: [],
+	macros: [],
+	exportDestination: '',
+	exportRewriteLinks: true,
+	exportStripProperties: '',
 };
 
 /**
@@ -0,0 +1,115 @@
+/**
+ * Archive utilities
+ * Archiving moves entries into the view's archive folder and/or marks them with an archive
+ * property and timestamp; the original location is recorded so unarchive can move them back
+ */
+
+import { App, TFile, TFolder, moment } from 'obsidian';
+import type { CMSSettings } from '../shared/data-transform';
+import type { BasesCMSSettings } from '../types';
+import { isFolderBasedContent } from './smart-deletion';
+
+/** Format used for the archive timestamp, matching Obsidian's date & time properties */
+const ARCHIVE_TIMESTAMP_FORMAT = 'YYYY-MM-DDTHH:mm:ss';
+
+/**
+ * Strip "note." prefix from a configured property
+ */
+function cleanProperty(property: string): string {
+	const trimmed = property.trim();
+	return trimmed.startsWith('note.') ? trimmed.substring(5) : trimmed;
+}
+
+/**
+ * Whether the view has enough configuration to archive anything
+ */
+export function isArchiveConfigured(settings?: CMSSettings): boolean {
+	return !!settings && (settings.archiveFolder.trim() !== '' || settings.archiveProperty.trim() !== '');
+}
+
+/**
+ * Mark frontmatter as archived
+ * originPath is the path the entry was moved from, or null when it stays in place
+ */
+export function applyArchiveProperties(
+	frontmatter: Record<string, unknown>,
+	settings: CMSSettings,
+	originPath: string | null
+): void {
+	const archiveProperty = cleanProperty(settings.archiveProperty);
+	if (archiveProperty) {
+		frontmatter[archiveProperty] = true;
+	}
+	const dateProperty = cleanProperty(settings.archiveDateProperty);
+	if (dateProperty) {
+		frontmatter[dateProperty] = moment().format(ARCHIVE_TIMESTAMP_FORMAT);
+	}
+	const originProperty = cleanProperty(settings.archiveOriginProperty);
+	if (originProperty && originPath) {
+		frontmatter[originProperty] = originPath;
+	}
+}
+
+/**
+ * Remove the archive markers from frontmatter
+ */
+export function clearArchiveProperties(frontmatter: Record<string, unknown>, settings: CMSSettings): void {
+	const properties = [settings.archiveProperty, settings.archiveDateProperty, settings.archiveOriginProperty]
+		.map(cleanProperty)
+		.filter(property => property.length > 0);
+	for (const property of properties) {
+		delete frontmatter[property];
+	}
+}
+
+/**
+ * Planned unarchive of a single selected file
+ */
+export interface UnarchiveTarget {
+	file: TFile;
+	/** File or folder moved back, or null when the entry was archived in place */
+	source: TFile | TFolder | null;
+	/** Recorded original path of source */
+	originPath: string | null;
+	/** Path of the note once moved back */
+	notePath: string;
+}
+
+/**
+ * Work out where each selected entry goes back to, based on its recorded original location
+ */
+export function planUnarchive(
+	app: App,
+	files: string[],
+	config: BasesCMSSettings,
+	settings: CMSSettings
+): UnarchiveTarget[] {
+	const targets: UnarchiveTarget[] = [];
+	const originProperty = cleanProperty(settings.archiveOriginProperty);
+	const restoredFolders = new Set<TFolder>();
+
+	for (const filePath of files) {
+		const file = app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) continue;
+
+		const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		const origin = originProperty ? frontmatter?.[originProperty] : undefined;
+		if (typeof origin !== 'string' || origin.trim() === '') {
+			targets.push({ file, source: null, originPath: null, notePath: file.path });
+			continue;
+		}
+
+		const parent = file.parent;
+		if (parent && !parent.isRoot() && isFolderBasedContent(file, config)) {
+			// Several selected files can share a content folder; move it once
+			if (restoredFolders.has(parent)) continue;
+			restoredFolders.add(parent);
+			targets.push({ file, source: parent, originPath: origin, notePath: `${origin}/${file.name}` });
+			continue;
+		}
+
+		targets.push({ file, source: file, originPath: origin, notePath: origin });
+	}
+
+	return targets;
+}
@@ -0,0 +1,126 @@
+/**
+ * Bulk job runner
+ * Runs bulk operations one file at a time with a progress notice, cancellation,
+ * per-file locking and a results report with retry for failed files
+ */
+
+import { App, Notice } from 'obsidian';
+import { BulkProgressNotice } from '../components/bulk-progress-notice';
+import { BulkJobResultsModal } from '../components/bulk-job-results-modal';
+
+export interface BulkJob {
+	label: string;
+	/** Paths processed by the job, in order; these are locked while the job runs */
+	paths: string[];
+	/**
+	 * Process one path; throwing marks the path as failed
+	 * index is the path's position among the paths of this run (a retry only runs the failed paths)
+	 */
+	process: (path: string, index: number) => Promise<void>;
+	/** Called before every run of the job, including retries */
+	onStart?: () => void;
+	/** Called after every run of the job, including retries */
+	onFinish?: (result: BulkJobResult) => void;
+}
+
+export interface BulkJobResult {
+	label: string;
+	total: number;
+	succeeded: string[];
+	failed: { path: string; error: string }[];
+	/** Paths that were not processed because the job was cancelled */
+	cancelled: string[];
+}
+
+export class BulkJobRunner {
+	/** Paths claimed by running jobs */
+	private lockedPaths = new Set<string>();
+
+	/**
+	 * @param onRetried - Called after a retry of failed files finishes, e.g. to refresh views
+	 */
+	constructor(private app: App, private onRetried?: () => void) {}
+
+	/**
+	 * Whether any of the given paths belong to a running job
+	 */
+	isBusy(paths: string[]): boolean {
+		return paths.some(path => this.lockedPaths.has(path));
+	}
+
+	/**
+	 * Run a job
+	 * Returns null without doing anything when another job is still working on some of its paths
+	 */
+	async run(job: BulkJob): Promise<BulkJobResult | null> {
+		const busy = job.paths.filter(path => this.lockedPaths.has(path));
+		if (busy.length > 0) {
+			new Notice(`Another bulk operation is still running on ${busy.length} of these file${busy.length !== 1 ? 's' : ''}`);
+			return null;
+		}
+
+		for (const path of job.paths) {
+			this.lockedPaths.add(path);
+		}
+
+		const result: BulkJobResult = {
+			label: job.label,
+			total: job.paths.length,
+			succeeded: [],
+			failed: [],
+			cancelled: [],
+		};
+		const progress = new BulkProgressNotice(job.label, job.paths.length);
+
+		try {
+			job.onStart?.();
+			for (let i = 0; i < job.paths.length; i++) {
+				const path = job.paths[i];
+				if (progress.isCancelled()) {
+					result.cancelled = job.paths.slice(i);
+					break;
+				}
+
+				progress.update(i, path);
+				try {
+					await job.process(path, i);
+					result.succeeded.push(path);
+				} catch (error) {
+					console.error(`Error processing ${path}:`, error);
+					result.failed.push({
+						path,
+						error: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+		} finally {
+			progress.hide();
+			for (const path of job.paths) {
+				this.lockedPaths.delete(path);
+			}
+			job.onFinish?.(result);
+		}
+
+		this.report(job, result);
+		return result;
+	}
+
+	/**
+	 * Tell the user about cancelled and failed files
+	 */
+	private report(job: BulkJob, result: BulkJobResult): void {
+		if (result.cancelled.length > 0) {
+			const done = result.total - result.cancelled.length;
+			new Notice(`Cancelled "${job.label}" after ${done} of ${result.total} file${result.total !== 1 ? 's' : ''}`);
+		}
+
+		if (result.failed.length > 0) {
+			new BulkJobResultsModal(this.app, result, () => {
+				void (async () => {
+					await this.run({ ...job, paths: result.failed.map(item => item.path) });
+					this.onRetried?.();
+				})();
+			}).open();
+		}
+	}
+}
@@ -0,0 +1,384 @@
+/**
+ * Bulk operation journal
+ * Records the frontmatter and path of every file touched by a bulk operation
+ * (and the body, for operations that edit it) so the operation can be undone and redone
+ * Files and folders an operation creates as copies are removed on undo and copied again on redo
+ */
+
+import { App, TFile, TFolder, Notice } from 'obsidian';
+import { readFrontmatterSnapshot, restoreFrontmatterSnapshot } from './frontmatter';
+import { readBodySnapshot, restoreBodySnapshot } from './note-body';
+
+/** Maximum number of bulk operations kept in the undo history */
+export const MAX_JOURNAL_ENTRIES = 20;
+
+export interface JournalFileRecord {
+	/** Path before the operation ran */
+	path: string;
+	/** Path after the operation ran (differs from path when the file was renamed) */
+	newPath: string;
+	/** Frontmatter before the operation ran */
+	before: Record<string, unknown> | null;
+	/** Frontmatter after the operation ran */
+	after: Record<string, unknown> | null;
+	/** Note body before and after the operation ran, only recorded by operations that edit the body */
+	bodyBefore?: string;
+	bodyAfter?: string;
+	/** Set when the operation created the file as a copy of this path (path and newPath are the copy) */
+	createdFrom?: string;
+}
+
+export interface JournalFolderRecord {
+	/** Folder path before the operation ran */
+	path: string;
+	/** Folder path after the operation ran */
+	newPath: string;
+	/** Set when the operation created the folder as a copy of this path (path and newPath are the copy) */
+	createdFrom?: string;
+}
+
+export interface JournalEntry {
+	id: number;
+	label: string;
+	timestamp: number;
+	files: JournalFileRecord[];
+	/** Whole folders moved by the operation (folder-based content) */
+	folders: JournalFolderRecord[];
+}
+
+/**
+ * Open journal entry for an operation that is still running
+ */
+export class JournalRecorder {
+	private records: JournalFileRecord[] = [];
+	private folderRecords: JournalFolderRecord[] = [];
+	private pending = new Map<TFile, { path: string; before: Record<string, unknown> | null; bodyBefore?: string }>();
+
+	constructor(private app: App, readonly label: string) {}
+
+	/**
+	 * Capture a file's state before it is modified
+	 * Set includeBody for operations that edit the note body as well as its frontmatter
+	 */
+	async captureBefore(file: TFile, includeBody = false): Promise<void> {
+		this.pending.set(file, {
+			path: file.path,
+			before: await readFrontmatterSnapshot(this.app, file),
+			bodyBefore: includeBody ? await readBodySnapshot(this.app, file) : undefined,
+		});
+	}
+
+	/**
+	 * Capture a file's state after it was modified
+	 * The TFile is updated in place by renames, so file.path is the new path
+	 */
+	async captureAfter(file: TFile): Promise<void> {
+		const pending = this.pending.get(file);
+		if (!pending) return;
+		this.pending.delete(file);
+
+		this.records.push({
+			path: pending.path,
+			newPath: file.path,
+			before: pending.before,
+			after: await readFrontmatterSnapshot(this.app, file),
+			bodyBefore: pending.bodyBefore,
+			bodyAfter: pending.bodyBefore !== undefined ? await readBodySnapshot(this.app, file) : undefined,
+		});
+	}
+
+	/**
+	 * Record a folder that was moved as a whole
+	 */
+	recordFolderMove(path: string, newPath: string): void {
+		this.folderRecords.push({ path, newPath });
+	}
+
+	/**
+	 * Record a file the operation created by copying another file
+	 * Call once the copy is final, since redo copies the source again and applies the copy's frontmatter
+	 */
+	async recordCopy(sourcePath: string, copy: TFile): Promise<void> {
+		this.records.push({
+			path: copy.path,
+			newPath: copy.path,
+			before: null,
+			after: await readFrontmatterSnapshot(this.app, copy),
+			createdFrom: sourcePath,
+		});
+	}
+
+	/**
+	 * Record a folder the operation created by copying another folder
+	 */
+	recordFolderCopy(sourcePath: string, path: string): void {
+		this.folderRecords.push({ path, newPath: path, createdFrom: sourcePath });
+	}
+
+	getRecords(): JournalFileRecord[] {
+		return this.records;
+	}
+
+	getFolderRecords(): JournalFolderRecord[] {
+		return this.folderRecords;
+	}
+}
+
+export class BulkJournal {
+	private undoStack: JournalEntry[] = [];
+	private redoStack: JournalEntry[] = [];
+	private nextId = 1;
+	private isReplaying = false;
+	private replayListeners = new Set<(paths: { path: string; newPath?: string }[]) => void>();
+
+	constructor(private app: App) {}
+
+	/**
+	 * Listen for undo and redo, which write files outside of any bulk operation
+	 * The listener gets each replayed file's path before the replay and, if it changed, after
+	 * Returns a function that removes the listener
+	 */
+	onReplay(listener: (paths: { path: string; newPath?: string }[]) => void): () => void {
+		this.replayListeners.add(listener);
+		return () => this.replayListeners.delete(listener);
+	}
+
+	/**
+	 * Start recording a bulk operation
+	 * Returns null while an undo/redo is replaying so replays are not journaled themselves
+	 */
+	begin(label: string): JournalRecorder | null {
+		if (this.isReplaying) return null;
+		return new JournalRecorder(this.app, label);
+	}
+
+	/**
+	 * Store a finished recording as the newest undoable entry
+	 */
+	commit(recorder: JournalRecorder | null): void {
+		if (!recorder) return;
+		const files = recorder.getRecords();
+		const folders = recorder.getFolderRecords();
+		if (files.length === 0 && folders.length === 0) return;
+
+		this.undoStack.push({
+			id: this.nextId++,
+			label: recorder.label,
+			timestamp: Date.now(),
+			files,
+			folders,
+		});
+		if (this.undoStack.length > MAX_JOURNAL_ENTRIES) {
+			this.undoStack.shift();
+		}
+		// A new operation invalidates anything that was undone before it
+		this.redoStack = [];
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	/**
+	 * Entries that can be undone, newest first
+	 */
+	getUndoHistory(): JournalEntry[] {
+		return [...this.undoStack].reverse();
+	}
+
+	/**
+	 * Entries that can be redone, next redo first
+	 */
+	getRedoHistory(): JournalEntry[] {
+		return [...this.redoStack].reverse();
+	}
+
+	/**
+	 * Undo the most recent bulk operation
+	 */
+	async undo(): Promise<JournalEntry | null> {
+		const entry = this.undoStack.pop();
+		if (!entry) {
+			new Notice('Nothing to undo');
+			return null;
+		}
+
+		const failed = await this.replay(entry, 'undo');
+		this.redoStack.push(entry);
+		this.notifyResult('Undid', entry, failed);
+		return entry;
+	}
+
+	/**
+	 * Redo the most recently undone bulk operation
+	 */
+	async redo(): Promise<JournalEntry | null> {
+		const entry = this.redoStack.pop();
+		if (!entry) {
+			new Notice('Nothing to redo');
+			return null;
+		}
+
+		const failed = await this.replay(entry, 'redo');
+		this.undoStack.push(entry);
+		this.notifyResult('Redid', entry, failed);
+		return entry;
+	}
+
+	/**
+	 * Undo entries until the entry with the given id has been undone
+	 */
+	async undoTo(id: number): Promise<void> {
+		if (!this.undoStack.some(entry => entry.id === id)) return;
+		while (this.undoStack.length > 0) {
+			const entry = await this.undo();
+			if (!entry || entry.id === id) break;
+		}
+	}
+
+	/**
+	 * Redo entries until the entry with the given id has been redone
+	 */
+	async redoTo(id: number): Promise<void> {
+		if (!this.redoStack.some(entry => entry.id === id)) return;
+		while (this.redoStack.length > 0) {
+			const entry = await this.redo();
+			if (!entry || entry.id === id) break;
+		}
+	}
+
+	/**
+	 * Apply an entry's snapshots in the given direction
+	 * Returns the number of files that could not be restored
+	 */
+	private async replay(entry: JournalEntry, direction: 'undo' | 'redo'): Promise<number> {
+		let failed = 0;
+		this.isReplaying = true;
+		try {
+			// Redo moves folders before touching files; undo moves them back afterwards
+			if (direction === 'redo') {
+				failed += await this.replayFolders(entry.folders, direction);
+			}
+
+			// Undo in reverse order so chained renames unwind correctly
+			const records = direction === 'undo' ? [...entry.files].reverse() : entry.files;
+			for (const record of records) {
+				const fromPath = direction === 'undo' ? record.newPath : record.path;
+				const toPath = direction === 'undo' ? record.path : record.newPath;
+				const snapshot = direction === 'undo' ? record.before : record.after;
+
+				// Copies are removed on undo; on redo the fresh copy gets the recorded frontmatter below
+				if (record.createdFrom !== undefined) {
+					if (!(await this.replayCopy(record.createdFrom, record.path, direction))) {
+						failed++;
+						continue;
+					}
+					if (direction === 'undo') continue;
+				}
+
+				const file = this.app.vault.getAbstractFileByPath(fromPath);
+				if (!(file instanceof TFile)) {
+					failed++;
+					continue;
+				}
+
+				try {
+					if (fromPath !== toPath) {
+						await this.app.fileManager.renameFile(file, toPath);
+					}
+					// Skip the write for records that only renamed the file
+					if (JSON.stringify(record.before) !== JSON.stringify(record.after)) {
+						await restoreFrontmatterSnapshot(this.app, file, snapshot);
+					}
+					const body = direction === 'undo' ? record.bodyBefore : record.bodyAfter;
+					if (body !== undefined && record.bodyBefore !== record.bodyAfter) {
+						await restoreBodySnapshot(this.app, file, body);
+					}
+				} catch (error) {
+					console.error(`Error restoring ${fromPath}:`, error);
+					failed++;
+				}
+			}
+
+			if (direction === 'undo') {
+				failed += await this.replayFolders(entry.folders, direction);
+			}
+		} finally {
+			this.isReplaying = false;
+		}
+
+		const paths = entry.files.map(record => direction === 'undo'
+			? { path: record.newPath, newPath: record.path }
+			: { path: record.path, newPath: record.newPath });
+		for (const listener of this.replayListeners) {
+			listener(paths);
+		}
+		return failed;
+	}
+
+	/**
+	 * Move recorded folders in the given direction
+	 * Returns the number of folders that could not be moved
+	 */
+	private async replayFolders(folders: JournalFolderRecord[], direction: 'undo' | 'redo'): Promise<number> {
+		let failed = 0;
+		const records = direction === 'undo' ? [...folders].reverse() : folders;
+		for (const record of records) {
+			if (record.createdFrom !== undefined) {
+				if (!(await this.replayCopy(record.createdFrom, record.path, direction))) {
+					failed++;
+				}
+				continue;
+			}
+			const fromPath = direction === 'undo' ? record.newPath : record.path;
+			const toPath = direction === 'undo' ? record.path : record.newPath;
+			const folder = this.app.vault.getAbstractFileByPath(fromPath);
+			if (!(folder instanceof TFolder)) {
+				failed++;
+				continue;
+			}
+			try {
+				await this.app.fileManager.renameFile(folder, toPath);
+			} catch (error) {
+				console.error(`Error moving folder ${fromPath}:`, error);
+				failed++;
+			}
+		}
+		return failed;
+	}
+
+	/**
+	 * Move a copy made by an operation to the trash on undo, or copy its source to it again on redo
+	 * Returns whether this succeeded
+	 */
+	private async replayCopy(sourcePath: string, path: string, direction: 'undo' | 'redo'): Promise<boolean> {
+		try {
+			if (direction === 'undo') {
+				const copy = this.app.vault.getAbstractFileByPath(path);
+				if (!copy) return false;
+				await this.app.fileManager.trashFile(copy);
+				return true;
+			}
+			const source = this.app.vault.getAbstractFileByPath(sourcePath);
+			if (!source || this.app.vault.getAbstractFileByPath(path)) return false;
+			await this.app.vault.copy(source, path);
+			return true;
+		} catch (error) {
+			console.error(`Error ${direction === 'undo' ? 'removing' : 'recreating'} copy ${path}:`, error);
+			return false;
+		}
+	}
+
+	private notifyResult(verb: string, entry: JournalEntry, failed: number): void {
+		const restored = entry.files.length + entry.folders.length - failed;
+		let message = `${verb} "${entry.label}" on ${restored} file${restored !== 1 ? 's' : ''}`;
+		if (failed > 0) {
+			message += `, ${failed} could not be restored`;
+		}
+		new Notice(message);
+	}
+}
@@ -2,198 +2,1317 @@
  * Bulk operation handlers
  */
 
-import { App, TFile, Notice } from 'obsidian';
-import { addProperties, removeProperties } from './frontmatter';
+import { App, TFile, TFolder, Notice, normalizePath } from 'obsidian';
+import { addProperties, removeProperties, applyProperties, applyListEdit, clearProperties, readFrontmatterSnapshot, replaceInFrontmatter, renameFrontmatterKey, type ListEdit } from './frontmatter';
+import { buildSearchPattern, findBodyMatches, replaceInBody, type BodyMatch, type BodySearchOptions, type SearchOptions } from './search-replace';
+import { convertPropertyValue, type ConversionOptions, type ConversionReport } from './property-conversion';
 import { NewPropData } from './frontmatter';
 import type { CMSSettings } from '../shared/data-transform';
+import type { BasesCMSSettings, BulkMacro } from '../types';
+import type { BulkJournal, JournalRecorder } from './bulk-journal';
+import { BulkJobRunner } from './bulk-job-runner';
+import type { SelectionSnapshot } from './selection-snapshot';
+import { StaleFilesModal } from '../components/stale-files-modal';
+import { buildChangePreview, type BulkChangePreview, type PropertyChange } from './bulk-preview';
+import { planMove, getMovedFilePath } from './move-operations';
+import { applyArchiveProperties, clearArchiveProperties, planUnarchive } from './archive-operations';
+import { planDuplicates, resetDuplicateProperties } from './duplicate-operations';
+import { planBulkRename, isEffectiveRename, orderRenames, type RenamePatternOptions } from './rename-pattern';
+import { addFrontmatterTags, applyTagRewrite, getInlineTags, getTagsKey, isRewrittenTag, removeFrontmatterTags, rewriteInlineTags, rewriteTag, type TagRewrite } from './tag-operations';
+import { splitNoteContent, stripInlineTags } from './note-body';
+import { applyGridEdits, getAssignedType } from './grid-edit';
+import { applyDateEdit, describeDateEdit, getFallbackDateFormat, type DateEdit } from './date-operations';
+import { buildTemplatePropertyMap, type TemplateProperty } from './frontmatter-template';
+import { hasKeyOrderChanged, normalizeFrontmatter, type NormalizeOptions } from './frontmatter-normalize';
+import { planExport, prepareExportContent, writeExportFile, type ExportOptions } from './export-operations';
+import { buildTemplateContext, coerceTemplateValue, evaluateTemplate, hasTemplateExpressions } from './value-template';
+import { applyMacroSteps, getMacroCommands, hasFrontmatterSteps, planMacro, type MacroSettings } from './macro-operations';
+
+/**
+ * Strip "note." prefix if present (Bases uses "note.property" but frontmatter uses just "property")
+ */
+export function cleanPropertyName(property: string): string {
+	return property.startsWith('note.') ? property.substring(5) : property;
+}
+
+/**
+ * Build the property map used by setProperty
+ */
+function buildSetPropertyMap(property: string, value: unknown, propertyType: string): Map<string, NewPropData> {
+	const props = new Map<string, NewPropData>();
+	props.set(property, {
+		type: propertyType,
+		data: value as string | string[] | null,
+		overwrite: true,
+		delimiter: ',',
+	});
+	return props;
+}
+
+/**
+ * Matches found in one file's body by findBodyMatches
+ */
+export interface BodyMatchReport {
+	path: string;
+	count: number;
+	/** Context snippets of the first matches */
+	snippets: BodyMatch[];
+}
+
+/**
+ * View settings that decide how draft status is stored
+ */
+export type DraftSettings = Pick<CMSSettings, 'draftStatusProperty' | 'draftStatusReverse' | 'draftStatusUseFilenamePrefix'>;
+
+/**
+ * Planned effect of setting a file's draft status
+ * Either a rename (filename prefix mode) or a frontmatter property value
+ */
+export interface DraftChange {
+	newPath?: string;
+	property?: string;
+	value?: boolean;
+}
+
+/**
+ * Work out how to set a file's draft status
+ * Uses the same logic as handlePropertyToggle: filename prefix mode, property mode and reverse logic
+ */
+export function planDraftChange(file: TFile, draft: boolean, settings?: DraftSettings): DraftChange {
+	// Fallback: use default behavior (set draft property)
+	if (!settings) {
+		return { property: 'draft', value: draft };
+	}
+
+	// Apply reverse logic if enabled
+	const targetValue = settings.draftStatusReverse ? !draft : draft;
+
+	// Check if using filename prefix mode
+	if (settings.draftStatusUseFilenamePrefix) {
+		// Always use filename-based detection when this setting is enabled
+		const fileName = file.basename; // basename excludes extension
+		const startsWithUnderscore = fileName.startsWith('_');
+		const pathParts = file.path.split('/');
+		const extension = file.extension ? `.${file.extension}` : '';
+
+		// Setting to draft - add underscore if not present
+		if (targetValue === true && !startsWithUnderscore) {
+			pathParts[pathParts.length - 1] = `_${fileName}${extension}`;
+			return { newPath: pathParts.join('/') };
+		}
+		// Setting to published - remove underscore if present
+		if (targetValue === false && startsWithUnderscore) {
+			pathParts[pathParts.length - 1] = fileName.substring(1) + extension;
+			return { newPath: pathParts.join('/') };
+		}
+		return {};
+	}
+
+	// Use property-based detection (frontmatter)
+	const cleanConfigProperty = settings.draftStatusProperty && settings.draftStatusProperty.trim()
+		? (settings.draftStatusProperty.startsWith('note.') 
+			? settings.draftStatusProperty.substring(5) 
+			: settings.draftStatusProperty)
+		: 'draft';
+	return { property: cleanConfigProperty, value: targetValue };
+}
+
+/**
+ * Check whether a file is currently a draft
+ * Reads the file name or frontmatter the same way calculateDraftStatus reads Bases values
+ */
+export function isDraftFile(app: App, file: TFile, settings?: DraftSettings): boolean {
+	if (settings?.draftStatusUseFilenamePrefix) {
+		const startsWithUnderscore = file.basename.startsWith('_');
+		return settings.draftStatusReverse ? !startsWithUnderscore : startsWithUnderscore;
+	}
+
+	const property = settings?.draftStatusProperty?.trim()
+		? cleanPropertyName(settings.draftStatusProperty.trim())
+		: 'draft';
+	const value = (app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined)?.[property];
+	if (typeof value !== 'boolean') return false;
+	return settings?.draftStatusReverse ? !value : value;
+}
+
+/**
+ * Label of a list edit for the undo history
+ */
+export function describeListEdit(property: string, edit: ListEdit): string {
+	switch (edit.mode) {
+		case 'add': return `Add to ${property}`;
+		case 'remove': return `Remove from ${property}`;
+		case 'replace': return `Replace in ${property}`;
+		case 'dedupe': return `Dedupe ${property}`;
+		case 'sort': return `Sort ${property}`;
+	}
+}
+
+/**
+ * Options for removing tags
+ */
+export interface RemoveTagsOptions {
+	/** View property that holds tags (defaults to tags) */
+	tagsProperty?: string;
+	/** Also remove inline #tag occurrences from the note body */
+	stripInline?: boolean;
+}
+
+/**
+ * Label of a tag rewrite for notices and the undo history
+ */
+function describeTagRewrite(rewrite: TagRewrite): string {
+	const from = rewrite.from.map(tag => `#${tag}`).join(', ');
+	if (rewrite.to === null) return `Delete ${from}`;
+	return rewrite.from.length > 1 ? `Merge ${from} into #${rewrite.to}` : `Rename ${from} to #${rewrite.to}`;
+}
 
 export class BulkOperations {
-	constructor(private app: App) {}
+	private runner: BulkJobRunner;
+
+	/**
+	 * @param selection - When given, files modified since they were selected are flagged before being written
+	 */
+	constructor(private app: App, private journal?: BulkJournal, runner?: BulkJobRunner, private selection?: SelectionSnapshot) {
+		this.runner = runner ?? new BulkJobRunner(app);
+	}
 
 	/**
 	 * Set draft status for multiple files
 	 * Respects filename prefix mode and reverse logic settings
+	 * Returns the original paths of the files that were updated, or null when the job could not start
 	 */
-	async setDraft(files: string[], draft: boolean, settings?: CMSSettings): Promise<void> {
-		await this.batchProcessFiles(files, async (file) => {
-			// If settings provided, use the same logic as handlePropertyToggle
-			if (settings) {
-				// Check if using filename prefix mode
-				if (settings.draftStatusUseFilenamePrefix) {
-					// Always use filename-based detection when this setting is enabled
-					const fileName = file.basename; // basename excludes extension
-					const startsWithUnderscore = fileName.startsWith('_');
-					const currentPath = file.path;
-					const pathParts = currentPath.split('/');
-					
-					// Apply reverse logic if enabled
-					let targetValue = draft;
-					if (settings.draftStatusReverse) {
-						targetValue = !draft;
-					}
-					
-					// Toggle based on desired state: if targetValue is true (draft), ensure underscore; if false (published), remove it
-					if (targetValue === true) {
-						// Setting to draft - add underscore if not present
-						if (!startsWithUnderscore) {
-							const newName = `_${fileName}${file.extension ? `.${file.extension}` : ''}`;
-							pathParts[pathParts.length - 1] = newName;
-							const newPath = pathParts.join('/');
-							await this.app.fileManager.renameFile(file, newPath);
-						}
-					} else {
-						// Setting to published - remove underscore if present
-						if (startsWithUnderscore) {
-							const newName = fileName.substring(1) + (file.extension ? `.${file.extension}` : '');
-							pathParts[pathParts.length - 1] = newName;
-							const newPath = pathParts.join('/');
-							await this.app.fileManager.renameFile(file, newPath);
-						}
-					}
-				} else {
-					// Use property-based detection (frontmatter)
-					const cleanConfigProperty = settings.draftStatusProperty && settings.draftStatusProperty.trim()
-						? (settings.draftStatusProperty.startsWith('note.') 
-							? settings.draftStatusProperty.substring(5) 
-							: settings.draftStatusProperty)
-						: 'draft';
-					
-					// Apply reverse logic if enabled
-					let targetValue = draft;
-					if (settings.draftStatusReverse) {
-						targetValue = !draft;
-					}
-					
-					await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
-						const fm = frontmatter as Record<string, unknown>;
-						fm[cleanConfigProperty] = targetValue;
+	async setDraft(files: string[], draft: boolean, settings?: DraftSettings): Promise<string[] | null> {
+		const updated: string[] = [];
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			const originalPath = file.path;
+			await this.applyDraftChange(file, draft, settings);
+			updated.push(originalPath);
+		}, draft ? 'Set draft' : 'Publish');
+		if (processed === null) return null;
+
+		new Notice(`Set ${processed} file${processed !== 1 ? 's' : ''} to ${draft ? 'draft' : 'published'}`);
+		return updated;
+	}
+
+	/**
+	 * Move published entries past their expiry date back to draft
+	 * Files that are already drafts are left alone
+	 */
+	async moveExpiredToDraft(files: string[], settings?: DraftSettings): Promise<void> {
+		let moved = 0;
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			if (isDraftFile(this.app, file, settings)) return;
+			await this.applyDraftChange(file, true, settings);
+			moved++;
+		}, 'Move expired to draft');
+		if (processed === null || moved === 0) return;
+
+		new Notice(`Moved ${moved} expired file${moved !== 1 ? 's' : ''} back to draft`);
+	}
+
+	private async applyDraftChange(file: TFile, draft: boolean, settings?: DraftSettings): Promise<void> {
+		const change = planDraftChange(file, draft, settings);
+		if (change.newPath) {
+			await this.app.fileManager.renameFile(file, change.newPath);
+		}
+		if (change.property) {
+			const property = change.property;
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const fm = frontmatter as Record<string, unknown>;
+				fm[property] = change.value;
+			});
+		}
+	}
+
+	/**
+	 * Preview which files setDraft would change
+	 */
+	async previewSetDraft(files: string[], draft: boolean, settings?: DraftSettings): Promise<BulkChangePreview> {
+		return buildChangePreview(this.app, files, (file) => {
+			const change = planDraftChange(file, draft, settings);
+			return {
+				rename: change.newPath ?? null,
+				mutate: change.property
+					? (fm) => { fm[change.property as string] = change.value; }
+					: undefined,
+			};
+		});
+	}
+
+	/**
+	 * Add tags to multiple files
+	 * Tags go into the view's tags property, written in the style each note already uses
+	 */
+	async addTags(files: string[], tags: string[], tagsProperty?: string): Promise<void> {
+		const key = getTagsKey(tagsProperty);
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				addFrontmatterTags(frontmatter as Record<string, unknown>, key, tags);
+			});
+		}, 'Add tags');
+		if (processed === null) return;
+
+		new Notice(`Added tags to ${processed} file${processed !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Remove tags from multiple files
+	 * Reads the view's tags property in any format and writes it back in the same style;
+	 * with stripInline, inline #tag occurrences in the note body are removed as well
+	 */
+	async removeTags(files: string[], tagsToRemove: string[], options: RemoveTagsOptions = {}): Promise<void> {
+		const key = getTagsKey(options.tagsProperty);
+		let inlineRemoved = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			if (options.stripInline) {
+				// Strip inline tags first, while the cached tag positions still match the content
+				const tagCaches = this.app.metadataCache.getFileCache(file)?.tags ?? [];
+				if (tagCaches.length > 0) {
+					await this.app.vault.process(file, (content) => {
+						const result = stripInlineTags(content, tagCaches, tagsToRemove);
+						inlineRemoved += result.removed;
+						return result.content;
 					});
 				}
+			}
+
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				removeFrontmatterTags(frontmatter as Record<string, unknown>, key, tagsToRemove);
+			});
+		}, 'Remove tags', options.stripInline);
+		if (processed === null) return;
+
+		let message = `Removed tags from ${processed} file${processed !== 1 ? 's' : ''}`;
+		if (inlineRemoved > 0) {
+			message += ` (${inlineRemoved} inline)`;
+		}
+		new Notice(message);
+	}
+
+	/**
+	 * Rename, merge or delete tags (and their nested tags) across multiple files
+	 * Both the tags property and inline #tags in the note body are rewritten
+	 */
+	async rewriteTags(files: string[], rewrite: TagRewrite, tagsProperty?: string): Promise<void> {
+		const key = getTagsKey(tagsProperty);
+		const label = describeTagRewrite(rewrite);
+		let changedCount = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			let changed = false;
+			// Rewrite inline tags first, while the cached tag positions still match the content
+			const tagCaches = this.app.metadataCache.getFileCache(file)?.tags ?? [];
+			if (tagCaches.length > 0) {
+				await this.app.vault.process(file, (content) => {
+					const result = rewriteInlineTags(content, tagCaches, rewrite);
+					if (result.changed > 0) changed = true;
+					return result.content;
+				});
+			}
+
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const fm = frontmatter as Record<string, unknown>;
+				const before = JSON.stringify(fm[key]);
+				applyTagRewrite(fm, rewrite, key);
+				if (JSON.stringify(fm[key]) !== before) {
+					changed = true;
+				}
+			});
+			if (changed) changedCount++;
+		}, label, true);
+		if (processed === null) return;
+
+		new Notice(`${label} in ${changedCount} file${changedCount !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Preview which files rewriteTags would change
+	 * Inline tag changes are listed as an "(inline tags)" entry, since the diff only covers frontmatter
+	 */
+	async previewRewriteTags(files: string[], rewrite: TagRewrite, tagsProperty?: string): Promise<BulkChangePreview> {
+		const key = getTagsKey(tagsProperty);
+		const preview = await buildChangePreview(this.app, files, () => ({
+			mutate: (fm) => applyTagRewrite(fm, rewrite, key),
+		}));
+
+		const unaffected: string[] = [];
+		const inlineChanges = (filePath: string): PropertyChange | null => {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (!(file instanceof TFile)) return null;
+			const affected = getInlineTags(this.app, file).filter(tag => isRewrittenTag(tag, rewrite));
+			if (affected.length === 0) return null;
+			const rewritten = affected
+				.map(tag => rewriteTag(tag, rewrite))
+				.filter((tag): tag is string => tag !== null);
+			return {
+				key: '(inline tags)',
+				oldValue: affected.map(tag => `#${tag}`).join(', '),
+				newValue: rewritten.map(tag => `#${tag}`).join(', '),
+				removed: rewritten.length === 0,
+			};
+		};
+		for (const change of preview.changed) {
+			const inline = inlineChanges(change.path);
+			if (inline) change.changes.push(inline);
+		}
+		for (const filePath of preview.unaffected) {
+			const inline = inlineChanges(filePath);
+			if (inline) {
+				preview.changed.push({ path: filePath, changes: [inline] });
 			} else {
-				// Fallback: use default behavior (set draft property)
-				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
-					const fm = frontmatter as Record<string, unknown>;
-					fm.draft = draft;
+				unaffected.push(filePath);
+			}
+		}
+		return { changed: preview.changed, unaffected };
+	}
+
+	/**
+	 * Set a property value for multiple files
+	 * A text value containing {{expressions}} is evaluated for each file (see value-template)
+	 */
+	async setProperty(files: string[], property: string, value: unknown, propertyType: string = 'text', settings?: CMSSettings): Promise<void> {
+		const cleanProperty = cleanPropertyName(property);
+		const template = typeof value === 'string' && hasTemplateExpressions(value) ? value : null;
+		const props = buildSetPropertyMap(cleanProperty, value, propertyType);
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			const fileProps = template !== null
+				? buildSetPropertyMap(cleanProperty, await this.evaluateSetValue(file, template, propertyType, settings), propertyType)
+				: props;
+			await addProperties(this.app, file, fileProps, true);
+		}, `Set ${cleanProperty}`);
+		if (processed === null) return;
+
+		new Notice(`Set ${cleanProperty} on ${processed} file${processed !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Preview which files setProperty would change
+	 */
+	async previewSetProperty(files: string[], property: string, value: unknown, propertyType: string = 'text', settings?: CMSSettings): Promise<BulkChangePreview> {
+		const cleanProperty = cleanPropertyName(property);
+		const props = buildSetPropertyMap(cleanProperty, value, propertyType);
+		if (typeof value !== 'string' || !hasTemplateExpressions(value)) {
+			return buildChangePreview(this.app, files, () => ({
+				mutate: (fm) => applyProperties(fm, props, true),
+			}));
+		}
+
+		// Evaluate up front, since previews are simulated synchronously
+		// Files whose value cannot be evaluated are skipped when setting, so they stay unchanged here
+		const fileProps = new Map<string, Map<string, NewPropData>>();
+		for (const filePath of files) {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (!(file instanceof TFile)) continue;
+			try {
+				fileProps.set(file.path, buildSetPropertyMap(cleanProperty, await this.evaluateSetValue(file, value, propertyType, settings), propertyType));
+			} catch {
+				continue;
+			}
+		}
+		return buildChangePreview(this.app, files, (file) => ({
+			mutate: (fm) => {
+				const values = fileProps.get(file.path);
+				if (values) applyProperties(fm, values, true);
+			},
+		}));
+	}
+
+	/**
+	 * Evaluate a set value template for one file and convert it to the property type
+	 * Throws when the value does not fit the property type
+	 */
+	async evaluateSetValue(file: TFile, template: string, propertyType: string, settings?: CMSSettings): Promise<unknown> {
+		const context = await buildTemplateContext(this.app, file, template, settings);
+		return coerceTemplateValue(evaluateTemplate(template, context), propertyType);
+	}
+
+	/**
+	 * Add, remove, replace, dedupe or sort items of a list property on multiple files
+	 * Only files whose list actually changes are written
+	 */
+	async editListProperty(files: string[], property: string, edit: ListEdit): Promise<void> {
+		const cleanProperty = cleanPropertyName(property);
+		let changed = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const fm = frontmatter as Record<string, unknown>;
+				const before = JSON.stringify(fm[cleanProperty]);
+				applyListEdit(fm, cleanProperty, edit);
+				if (JSON.stringify(fm[cleanProperty]) !== before) {
+					changed++;
+				}
+			});
+		}, describeListEdit(cleanProperty, edit));
+		if (processed === null) return;
+
+		new Notice(`Updated ${cleanProperty} in ${changed} file${changed !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Preview which files editListProperty would change
+	 */
+	async previewEditListProperty(files: string[], property: string, edit: ListEdit): Promise<BulkChangePreview> {
+		const cleanProperty = cleanPropertyName(property);
+		return buildChangePreview(this.app, files, () => ({
+			mutate: (fm) => applyListEdit(fm, cleanProperty, edit),
+		}));
+	}
+
+	/**
+	 * Write the cells changed in the grid editor in a single operation
+	 * edits maps each file path to the properties it changes (undefined removes a property)
+	 */
+	async applyGridEdits(edits: Map<string, Record<string, unknown>>): Promise<void> {
+		const processed = await this.batchProcessFiles(Array.from(edits.keys()), async (file) => {
+			const fileEdits = edits.get(file.path);
+			if (!fileEdits) return;
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				applyGridEdits(frontmatter as Record<string, unknown>, fileEdits);
+			});
+		}, 'Edit in grid');
+		if (processed === null) return;
+
+		new Notice(`Updated ${processed} file${processed !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Preview the changes applyGridEdits would write
+	 */
+	async previewGridEdits(edits: Map<string, Record<string, unknown>>): Promise<BulkChangePreview> {
+		return buildChangePreview(this.app, Array.from(edits.keys()), (file) => ({
+			mutate: (fm) => applyGridEdits(fm, edits.get(file.path) ?? {}),
+		}));
+	}
+
+	/**
+	 * Shift, stamp or spread a date property on multiple files
+	 * files are in the view's sort order, which spreading follows over the files actually processed;
+	 * each file keeps its own date format
+	 */
+	async editDates(files: string[], property: string, edit: DateEdit): Promise<void> {
+		const cleanProperty = cleanPropertyName(property);
+		const fallbackFormat = getFallbackDateFormat(getAssignedType(this.app, cleanProperty));
+		let changed = 0;
+		let skipped = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file, index) => {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const fm = frontmatter as Record<string, unknown>;
+				const before = JSON.stringify(fm[cleanProperty]);
+				if (!applyDateEdit(fm, cleanProperty, edit, index, fallbackFormat)) {
+					skipped++;
+				} else if (JSON.stringify(fm[cleanProperty]) !== before) {
+					changed++;
+				}
+			});
+		}, describeDateEdit(cleanProperty, edit));
+		if (processed === null) return;
+
+		const skippedNote = skipped > 0 ? `, skipped ${skipped} without a date` : '';
+		new Notice(`Updated ${cleanProperty} in ${changed} file${changed !== 1 ? 's' : ''}${skippedNote}`);
+	}
+
+	/**
+	 * Preview which files editDates would change
+	 * Spread dates assume every file is processed, since stale files are only confirmed once the edit runs
+	 */
+	async previewEditDates(files: string[], property: string, edit: DateEdit): Promise<BulkChangePreview> {
+		const cleanProperty = cleanPropertyName(property);
+		const fallbackFormat = getFallbackDateFormat(getAssignedType(this.app, cleanProperty));
+		const indexes = new Map(files.map((filePath, index) => [filePath, index]));
+		return buildChangePreview(this.app, files, (file) => ({
+			mutate: (fm) => applyDateEdit(fm, cleanProperty, edit, indexes.get(file.path) ?? 0, fallbackFormat),
+		}));
+	}
+
+	/**
+	 * Merge the properties of a template note into multiple files
+	 * Each key is added if missing, overwritten or appended according to its mode
+	 */
+	async applyFrontmatterTemplate(files: string[], templateName: string, properties: TemplateProperty[]): Promise<void> {
+		let changed = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const fm = frontmatter as Record<string, unknown>;
+				const before = JSON.stringify(fm);
+				applyProperties(fm, buildTemplatePropertyMap(fm, properties), false);
+				if (JSON.stringify(fm) !== before) {
+					changed++;
+				}
+			});
+		}, `Apply template ${templateName}`);
+		if (processed === null) return;
+
+		new Notice(`Applied ${templateName} to ${changed} file${changed !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Preview which files applyFrontmatterTemplate would change
+	 */
+	async previewFrontmatterTemplate(files: string[], properties: TemplateProperty[]): Promise<BulkChangePreview> {
+		return buildChangePreview(this.app, files, () => ({
+			mutate: (fm) => applyProperties(fm, buildTemplatePropertyMap(fm, properties), false),
+		}));
+	}
+
+	/**
+	 * Normalize the frontmatter of multiple files: key order, empty keys and value formats
+	 * Only files whose frontmatter actually changes are counted
+	 */
+	async normalizeFrontmatter(files: string[], options: NormalizeOptions): Promise<void> {
+		let changed = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const fm = frontmatter as Record<string, unknown>;
+				const before = JSON.stringify(fm);
+				normalizeFrontmatter(fm, options);
+				if (JSON.stringify(fm) !== before) {
+					changed++;
+				}
+			});
+		}, 'Normalize frontmatter');
+		if (processed === null) return;
+
+		new Notice(`Normalized ${changed} file${changed !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Preview which files normalizeFrontmatter would change
+	 * Files that are only reordered get a "key order" entry, since value diffs do not show order
+	 */
+	async previewNormalizeFrontmatter(files: string[], options: NormalizeOptions): Promise<BulkChangePreview> {
+		const preview = await buildChangePreview(this.app, files, () => ({
+			mutate: (fm) => normalizeFrontmatter(fm, options),
+		}));
+
+		const unaffected: string[] = [];
+		for (const filePath of preview.unaffected) {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			const before = file instanceof TFile ? (await readFrontmatterSnapshot(this.app, file)) ?? {} : {};
+			const after = { ...before };
+			normalizeFrontmatter(after, options);
+			if (hasKeyOrderChanged(before, after)) {
+				preview.changed.push({
+					path: filePath,
+					changes: [{ key: '(key order)', oldValue: Object.keys(before).join(', '), newValue: Object.keys(after).join(', '), removed: false }],
 				});
+			} else {
+				unaffected.push(filePath);
 			}
-		});
+		}
+		return { changed: preview.changed, unaffected };
+	}
 
-		new Notice(`Set ${files.length} file${files.length !== 1 ? 's' : ''} to ${draft ? 'draft' : 'published'}`);
+	/**
+	 * Remove a property from multiple files
+	 */
+	async removeProperty(files: string[], property: string): Promise<void> {
+		await this.removeProperties(files, [property]);
 	}
 
 	/**
-	 * Add tags to multiple files
+	 * Remove several properties from multiple files in a single operation
 	 */
-	async addTags(files: string[], tags: string[]): Promise<void> {
-		const props = new Map<string, NewPropData>();
-		props.set('tags', {
-			type: 'tags',
-			data: tags,
-			overwrite: false,
-			delimiter: ',',
-		});
+	async removeProperties(files: string[], properties: string[]): Promise<void> {
+		const cleanProperties = properties.map(cleanPropertyName);
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await removeProperties(this.app, file, cleanProperties);
+		}, `Remove ${cleanProperties.join(', ')}`);
+		if (processed === null) return;
+
+		new Notice(`Removed ${cleanProperties.join(', ')} from ${processed} file${processed !== 1 ? 's' : ''}`);
+	}
 
-		await this.batchProcessFiles(files, async (file) => {
-			await addProperties(this.app, file, props, false);
+	/**
+	 * Preview which files removeProperties would change
+	 */
+	async previewRemoveProperties(files: string[], properties: string[]): Promise<BulkChangePreview> {
+		const cleanProperties = properties.map(cleanPropertyName);
+		return buildChangePreview(this.app, files, () => ({
+			mutate: (fm) => clearProperties(fm, cleanProperties),
+		}));
+	}
+
+	/**
+	 * Rename a property key on multiple files, keeping each file's value and key position
+	 * Files that already have the target key are skipped unless overwrite is set
+	 */
+	async renameProperty(files: string[], from: string, to: string, overwrite: boolean): Promise<void> {
+		const cleanFrom = cleanPropertyName(from);
+		const cleanTo = cleanPropertyName(to);
+		let renamed = 0;
+		let skipped = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const result = renameFrontmatterKey(frontmatter as Record<string, unknown>, cleanFrom, cleanTo, overwrite);
+				if (result === 'renamed') renamed++;
+				if (result === 'conflict') skipped++;
+			});
+		}, `Rename ${cleanFrom} to ${cleanTo}`);
+		if (processed === null) return;
+
+		let message = `Renamed ${cleanFrom} to ${cleanTo} in ${renamed} file${renamed !== 1 ? 's' : ''}`;
+		if (skipped > 0) {
+			message += `, skipped ${skipped} where ${cleanTo} already exists`;
+		}
+		new Notice(message);
+	}
+
+	/**
+	 * Preview which files renameProperty would change
+	 */
+	async previewRenameProperty(files: string[], from: string, to: string, overwrite: boolean): Promise<BulkChangePreview> {
+		const cleanFrom = cleanPropertyName(from);
+		const cleanTo = cleanPropertyName(to);
+		return buildChangePreview(this.app, files, () => ({
+			mutate: (fm) => { renameFrontmatterKey(fm, cleanFrom, cleanTo, overwrite); },
+		}));
+	}
+
+	/**
+	 * List files that have both the source and target keys of a rename
+	 */
+	findRenamePropertyConflicts(files: string[], from: string, to: string): string[] {
+		const cleanFrom = cleanPropertyName(from);
+		const cleanTo = cleanPropertyName(to);
+		return files.filter(filePath => {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (!(file instanceof TFile)) return false;
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			return !!frontmatter && cleanFrom in frontmatter && cleanTo in frontmatter;
 		});
+	}
 
-		new Notice(`Added tags to ${files.length} file${files.length !== 1 ? 's' : ''}`);
+	/**
+	 * Convert a property to another type on multiple files
+	 * Values that cannot be parsed are left alone and listed in the returned report
+	 * Returns null when the conversion could not start
+	 */
+	async convertPropertyType(files: string[], property: string, options: ConversionOptions): Promise<ConversionReport | null> {
+		const cleanProperty = cleanPropertyName(property);
+		const report: ConversionReport = { converted: [], failed: [], unchanged: [] };
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const fm = frontmatter as Record<string, unknown>;
+				const value = fm[cleanProperty];
+				const result = convertPropertyValue(value, options);
+				if (result.status === 'converted') {
+					fm[cleanProperty] = result.value;
+					report.converted.push({ path: file.path, from: value, to: result.value });
+				} else if (result.status === 'failed') {
+					report.failed.push({ path: file.path, value, reason: result.reason });
+				} else {
+					report.unchanged.push(file.path);
+				}
+			});
+		}, `Convert ${cleanProperty} to ${options.type}`);
+		if (processed === null) return null;
+
+		new Notice(`Converted ${cleanProperty} in ${report.converted.length} file${report.converted.length !== 1 ? 's' : ''}${report.failed.length > 0 ? `, ${report.failed.length} failed` : ''}`);
+		return report;
 	}
 
 	/**
-	 * Remove tags from multiple files
+	 * Preview which files convertPropertyType would change
+	 */
+	async previewConvertPropertyType(files: string[], property: string, options: ConversionOptions): Promise<BulkChangePreview> {
+		const cleanProperty = cleanPropertyName(property);
+		return buildChangePreview(this.app, files, () => ({
+			mutate: (fm) => {
+				const result = convertPropertyValue(fm[cleanProperty], options);
+				if (result.status === 'converted') {
+					fm[cleanProperty] = result.value;
+				}
+			},
+		}));
+	}
+
+	/**
+	 * Find and replace text in frontmatter values of multiple files
+	 * Pass null as property to search every property
+	 */
+	async replaceInProperties(files: string[], property: string | null, options: SearchOptions): Promise<void> {
+		const cleanProperty = property ? cleanPropertyName(property) : null;
+		const pattern = buildSearchPattern(options);
+		let changedCount = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				if (replaceInFrontmatter(frontmatter as Record<string, unknown>, cleanProperty, pattern, options)) {
+					changedCount++;
+				}
+			});
+		}, `Replace in ${cleanProperty ?? 'all properties'}`);
+		if (processed === null) return;
+
+		new Notice(`Replaced values in ${changedCount} file${changedCount !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Preview which files replaceInProperties would change
+	 */
+	async previewReplaceInProperties(files: string[], property: string | null, options: SearchOptions): Promise<BulkChangePreview> {
+		const cleanProperty = property ? cleanPropertyName(property) : null;
+		const pattern = buildSearchPattern(options);
+		return buildChangePreview(this.app, files, () => ({
+			mutate: (fm) => { replaceInFrontmatter(fm, cleanProperty, pattern, options); },
+		}));
+	}
+
+	/**
+	 * Replace text in the bodies of multiple files (the frontmatter is left alone)
+	 * The bodies are recorded so the replacement can be undone
+	 */
+	async replaceInBodies(files: string[], options: BodySearchOptions): Promise<void> {
+		const pattern = buildSearchPattern(options);
+		let changedCount = 0;
+		let replacedCount = 0;
+
+		const processed = await this.batchProcessFiles(files, async (file) => {
+			await this.app.vault.process(file, (content) => {
+				const { frontmatter, body } = splitNoteContent(content);
+				const result = replaceInBody(body, pattern, options);
+				if (result.count === 0) return content;
+				changedCount++;
+				replacedCount += result.count;
+				return frontmatter + result.body;
+			});
+		}, `Replace "${options.search}" in note bodies`, true);
+		if (processed === null) return;
+
+		new Notice(`Replaced ${replacedCount} match${replacedCount !== 1 ? 'es' : ''} in ${changedCount} file${changedCount !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Find the matches replaceInBodies would replace, per file, with context snippets
+	 * Files without matches are left out
+	 */
+	async findBodyMatches(files: string[], options: BodySearchOptions, maxSnippets: number): Promise<BodyMatchReport[]> {
+		const pattern = buildSearchPattern(options);
+		const reports: BodyMatchReport[] = [];
+		for (const file of this.resolveFiles(files).values()) {
+			const { body } = splitNoteContent(await this.app.vault.read(file));
+			const result = findBodyMatches(body, pattern, options, maxSnippets);
+			if (result.count > 0) {
+				reports.push({ path: file.path, ...result });
+			}
+		}
+		return reports;
+	}
+
+	/**
+	 * Move multiple files to another folder
+	 * Links are updated by the file manager; folder-based content moves its whole parent folder
+	 */
+	async moveFiles(files: string[], target: TFolder, config: BasesCMSSettings): Promise<void> {
+		const plan = planMove(this.app, files, target.path, config);
+		const moves = new Map(plan.moves.map(move => [move.file.path, move]));
+
+		const moved = await this.runJob(`Move to ${target.isRoot() ? '/' : target.path}`, Array.from(moves.keys()), async (path, recorder) => {
+			const move = moves.get(path);
+			if (!move) return;
+			if (move.kind === 'folder') {
+				const oldPath = move.folder.path;
+				await this.app.fileManager.renameFile(move.folder, move.newPath);
+				recorder?.recordFolderMove(oldPath, move.newPath);
+			} else {
+				await recorder?.captureBefore(move.file);
+				await this.app.fileManager.renameFile(move.file, move.newPath);
+				await recorder?.captureAfter(move.file);
+			}
+		}, false);
+		if (moved === null) return;
+
+		for (const skip of plan.skipped) {
+			console.warn(`[Bases CMS] Skipped moving ${skip.path}: ${skip.reason}`);
+		}
+
+		let message = `Moved ${moved} item${moved !== 1 ? 's' : ''}`;
+		if (plan.skipped.length > 0) {
+			message += `, skipped ${plan.skipped.length}`;
+		}
+		new Notice(message);
+	}
+
+	/**
+	 * Preview where moveFiles would put each file
+	 */
+	async previewMoveFiles(files: string[], target: TFolder, config: BasesCMSSettings): Promise<BulkChangePreview> {
+		const plan = planMove(this.app, files, target.path, config);
+		const newPaths = new Map<string, string>();
+		for (const move of plan.moves) {
+			newPaths.set(move.file.path, getMovedFilePath(move));
+		}
+		return buildChangePreview(this.app, files, (file) => ({
+			rename: newPaths.get(file.path) ?? null,
+		}));
+	}
+
+	/**
+	 * Rename multiple files from a pattern
+	 * Renames that collide with other files are skipped; folder-based content can rename its parent folder
 	 */
-	async removeTags(files: string[], tagsToRemove: string[]): Promise<void> {
-		await this.batchProcessFiles(files, async (file) => {
-			const metadata = this.app.metadataCache.getFileCache(file);
-			const frontmatter = metadata?.frontmatter;
-			
-			if (frontmatter?.tags) {
-				const fmTags = frontmatter.tags as string | string[];
-				const currentTags = Array.isArray(fmTags) 
-					? fmTags 
-					: [fmTags];
-				
-				const updatedTags = currentTags.filter((tag: string) => 
-					!tagsToRemove.includes(tag)
-				);
-
-				await this.app.fileManager.processFrontMatter(file, (fm) => {
-					const fmTyped = fm as Record<string, unknown>;
-					if (updatedTags.length > 0) {
-						fmTyped.tags = updatedTags;
-					} else {
-						fmTyped.tags = undefined;
+	async renameFiles(files: string[], options: RenamePatternOptions, config: BasesCMSSettings, settings?: CMSSettings): Promise<void> {
+		const plan = planBulkRename(this.app, files, options, config, settings);
+		const skipped = plan.filter(item => item.error);
+		// Renames run in an order that frees each path before it is reused
+		const items = new Map(orderRenames(plan).map(item => [item.file.path, item]));
+
+		const renamed = await this.runJob('Rename files', Array.from(items.keys()), async (path, recorder) => {
+			const item = items.get(path);
+			if (!item) return;
+			if (item.target instanceof TFolder) {
+				const oldPath = item.target.path;
+				await this.app.fileManager.renameFile(item.target, item.newPath);
+				recorder?.recordFolderMove(oldPath, item.newPath);
+			} else {
+				await recorder?.captureBefore(item.target);
+				await this.app.fileManager.renameFile(item.target, item.newPath);
+				await recorder?.captureAfter(item.target);
+			}
+		}, false);
+		if (renamed === null) return;
+
+		for (const item of skipped) {
+			console.warn(`[Bases CMS] Skipped renaming ${item.target.path}: ${item.error}`);
+		}
+
+		let message = `Renamed ${renamed} item${renamed !== 1 ? 's' : ''}`;
+		if (skipped.length > 0) {
+			message += `, skipped ${skipped.length}`;
+		}
+		new Notice(message);
+	}
+
+	/**
+	 * Preview the paths renameFiles would give each selected file
+	 */
+	async previewRenameFiles(files: string[], options: RenamePatternOptions, config: BasesCMSSettings, settings?: CMSSettings): Promise<BulkChangePreview> {
+		const newPaths = new Map<string, string>();
+		for (const item of planBulkRename(this.app, files, options, config, settings)) {
+			if (!isEffectiveRename(item)) continue;
+			newPaths.set(
+				item.file.path,
+				item.target instanceof TFolder ? `${item.newPath}/${item.file.name}` : item.newPath
+			);
+		}
+		return buildChangePreview(this.app, files, (file) => ({
+			rename: newPaths.get(file.path) ?? null,
+		}));
+	}
+
+	/**
+	 * Duplicate multiple notes next to the originals
+	 * Folder-based content copies its whole parent folder including attachments
+	 * Copies are marked as draft, dated today and have properties cleared according to the settings
+	 * Undo moves the copies to the trash
+	 */
+	async duplicateFiles(files: string[], config: BasesCMSSettings, settings?: CMSSettings): Promise<void> {
+		const targets = new Map(planDuplicates(this.app, files, config, settings).map(target => [target.file.path, target]));
+
+		const duplicated = await this.runJob('Duplicate', Array.from(targets.keys()), async (path, recorder) => {
+			const target = targets.get(path);
+			if (!target) return;
+
+			const copiedFolder = target.source instanceof TFolder;
+			await this.app.vault.copy(target.source, target.newPath);
+			// Record a copied folder straight away, so undo removes it even if the note edit below fails
+			if (copiedFolder) {
+				recorder?.recordFolderCopy(target.source.path, target.newPath);
+			}
+			const copy = this.app.vault.getAbstractFileByPath(target.notePath);
+			if (!(copy instanceof TFile)) {
+				throw new Error(`Copy not found at ${target.notePath}`);
+			}
+
+			// Record the copy once it is final, or once it failed part way so the partial copy can still be undone
+			const recordCopy = async () => {
+				if (copiedFolder) {
+					await recorder?.captureAfter(copy);
+				} else {
+					await recorder?.recordCopy(target.source.path, copy);
+				}
+			};
+			if (copiedFolder) {
+				await recorder?.captureBefore(copy);
+			}
+			try {
+				const draftChange = config.duplicateResetDraft ? planDraftChange(copy, true, settings) : {};
+				await this.app.fileManager.processFrontMatter(copy, (frontmatter) => {
+					const fm = frontmatter as Record<string, unknown>;
+					resetDuplicateProperties(fm, config, settings);
+					if (draftChange.property) {
+						fm[draftChange.property] = draftChange.value;
 					}
 				});
+				if (draftChange.newPath) {
+					await this.app.fileManager.renameFile(copy, draftChange.newPath);
+				}
+			} catch (error) {
+				await recordCopy().catch(() => undefined);
+				throw error;
 			}
+			await recordCopy();
+		}, false);
+		if (duplicated === null) return;
+
+		new Notice(`Duplicated ${duplicated} file${duplicated !== 1 ? 's' : ''}`);
+	}
+
+	/**
+	 * Archive multiple files using the view's archive settings
+	 * Moves them (folder-aware) into the archive folder and/or sets the archive property and timestamp,
+	 * recording the original location so they can be unarchived
+	 */
+	async archiveFiles(files: string[], config: BasesCMSSettings, settings: CMSSettings): Promise<void> {
+		const archiveFolder = settings.archiveFolder.trim();
+		const plan = archiveFolder ? planMove(this.app, files, archiveFolder, config) : null;
+		const moves = new Map((plan?.moves ?? []).map(move => [move.file.path, move]));
+		const skipped = new Map((plan?.skipped ?? []).map(skip => [skip.path, skip.reason]));
+		// Resolve up front: moving a content folder changes the paths of the other files in it
+		const entries = this.resolveFiles(files);
+
+		if (moves.size > 0) {
+			await this.ensureFolder(archiveFolder);
+		}
+
+		const archived = await this.runJob('Archive', Array.from(entries.keys()), async (path, recorder) => {
+			const file = entries.get(path);
+			if (!file) return;
+
+			const move = moves.get(path);
+			const skipReason = skipped.get(path);
+			if (!move && skipReason && !file.path.startsWith(`${normalizePath(archiveFolder)}/`)) {
+				throw new Error(skipReason);
+			}
+
+			if (move?.kind === 'folder') {
+				const originPath = move.folder.path;
+				await this.app.fileManager.renameFile(move.folder, move.newPath);
+				recorder?.recordFolderMove(originPath, move.newPath);
+				await recorder?.captureBefore(file);
+				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+					applyArchiveProperties(frontmatter as Record<string, unknown>, settings, originPath);
+				});
+				await recorder?.captureAfter(file);
+				return;
+			}
+
+			const originPath = file.path;
+			await recorder?.captureBefore(file);
+			if (move) {
+				await this.app.fileManager.renameFile(file, move.newPath);
+			}
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				applyArchiveProperties(frontmatter as Record<string, unknown>, settings, move ? originPath : null);
+			});
+			await recorder?.captureAfter(file);
 		});
+		if (archived === null) return;
 
-		new Notice(`Removed tags from ${files.length} file${files.length !== 1 ? 's' : ''}`);
+		new Notice(`Archived ${archived} file${archived !== 1 ? 's' : ''}`);
 	}
 
 	/**
-	 * Set a property value for multiple files
+	 * Preview what archiveFiles would change
 	 */
-	async setProperty(files: string[], property: string, value: unknown, propertyType: string = 'text'): Promise<void> {
-		// Strip "note." prefix if present (Bases uses "note.property" but frontmatter uses just "property")
-		const cleanProperty = property.startsWith('note.') ? property.substring(5) : property;
-		
-		const props = new Map<string, NewPropData>();
-		props.set(cleanProperty, {
-			type: propertyType,
-			data: value as string | string[] | null,
-			overwrite: true,
-			delimiter: ',',
+	async previewArchiveFiles(files: string[], config: BasesCMSSettings, settings: CMSSettings): Promise<BulkChangePreview> {
+		const archiveFolder = settings.archiveFolder.trim();
+		const plan = archiveFolder ? planMove(this.app, files, archiveFolder, config) : null;
+		const moves = new Map((plan?.moves ?? []).map(move => [move.file.path, move]));
+		return buildChangePreview(this.app, files, (file) => {
+			const move = moves.get(file.path);
+			const originPath = move ? (move.kind === 'folder' ? move.folder.path : file.path) : null;
+			return {
+				rename: move ? getMovedFilePath(move) : null,
+				mutate: (fm) => applyArchiveProperties(fm, settings, originPath),
+			};
 		});
+	}
+
+	/**
+	 * Unarchive multiple files
+	 * Moves them back to the location recorded when they were archived and clears the archive properties
+	 */
+	async unarchiveFiles(files: string[], config: BasesCMSSettings, settings: CMSSettings): Promise<void> {
+		const targets = new Map(planUnarchive(this.app, files, config, settings).map(target => [target.file.path, target]));
+
+		const unarchived = await this.runJob('Unarchive', Array.from(targets.keys()), async (path, recorder) => {
+			const target = targets.get(path);
+			if (!target) return;
+			const { file, source, originPath } = target;
 
-		await this.batchProcessFiles(files, async (file) => {
-			await addProperties(this.app, file, props, true);
+			if (source && originPath) {
+				if (this.app.vault.getAbstractFileByPath(originPath)) {
+					throw new Error(`${originPath} already exists`);
+				}
+				await this.ensureFolder(originPath.split('/').slice(0, -1).join('/'));
+			}
+
+			if (source instanceof TFolder && originPath) {
+				const archivedPath = source.path;
+				await this.app.fileManager.renameFile(source, originPath);
+				recorder?.recordFolderMove(archivedPath, originPath);
+				await recorder?.captureBefore(file);
+			} else {
+				await recorder?.captureBefore(file);
+				if (source && originPath) {
+					await this.app.fileManager.renameFile(file, originPath);
+				}
+			}
+
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				clearArchiveProperties(frontmatter as Record<string, unknown>, settings);
+			});
+			await recorder?.captureAfter(file);
 		});
+		if (unarchived === null) return;
 
-		new Notice(`Set ${cleanProperty} on ${files.length} file${files.length !== 1 ? 's' : ''}`);
+		new Notice(`Unarchived ${unarchived} file${unarchived !== 1 ? 's' : ''}`);
 	}
 
 	/**
-	 * Remove a property from multiple files
+	 * Preview what unarchiveFiles would change
 	 */
-	async removeProperty(files: string[], property: string): Promise<void> {
-		// Strip "note." prefix if present
-		const cleanProperty = property.startsWith('note.') ? property.substring(5) : property;
-		
-		await this.batchProcessFiles(files, async (file) => {
-			await removeProperties(this.app, file, [cleanProperty]);
+	async previewUnarchiveFiles(files: string[], config: BasesCMSSettings, settings: CMSSettings): Promise<BulkChangePreview> {
+		const targets = new Map(planUnarchive(this.app, files, config, settings).map(target => [target.file.path, target]));
+		return buildChangePreview(this.app, files, (file) => {
+			const target = targets.get(file.path);
+			return {
+				rename: target?.source ? target.notePath : null,
+				mutate: (fm) => clearArchiveProperties(fm, settings),
+			};
+		});
+	}
+
+	/**
+	 * Run a user-defined macro against multiple files as a single undoable operation
+	 * Frontmatter steps, draft status and moves are applied per file; commands run once afterwards
+	 */
+	async runMacro(files: string[], macro: BulkMacro, config: BasesCMSSettings, settings?: MacroSettings): Promise<void> {
+		const plan = planMacro(this.app, files, macro, config, settings);
+		const skipped = plan.filter(target => target.error);
+		const targets = new Map(plan.filter(target => !target.error).map(target => [target.file.path, target]));
+		const editsFrontmatter = hasFrontmatterSteps(macro);
+
+		const processed = await this.runJob(macro.name, Array.from(targets.keys()), async (path, recorder) => {
+			const target = targets.get(path);
+			if (!target) return;
+			const { file } = target;
+
+			if (target.folderMove) {
+				const oldPath = target.folderMove.folder.path;
+				await this.ensureFolder(target.folderMove.newPath.substring(0, target.folderMove.newPath.lastIndexOf('/')));
+				await this.app.fileManager.renameFile(target.folderMove.folder, target.folderMove.newPath);
+				recorder?.recordFolderMove(oldPath, target.folderMove.newPath);
+			}
+
+			await recorder?.captureBefore(file);
+			try {
+				if (editsFrontmatter) {
+					await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+						applyMacroSteps(frontmatter as Record<string, unknown>, macro.steps, file, settings);
+					});
+				}
+				if (target.newPath !== file.path) {
+					if (this.app.vault.getAbstractFileByPath(target.newPath)) {
+						throw new Error(`${target.newPath} already exists`);
+					}
+					await this.ensureFolder(target.newPath.substring(0, target.newPath.lastIndexOf('/')));
+					await this.app.fileManager.renameFile(file, target.newPath);
+				}
+			} catch (error) {
+				// Keep partial changes undoable
+				await recorder?.captureAfter(file).catch(() => undefined);
+				throw error;
+			}
+			await recorder?.captureAfter(file);
 		});
+		if (processed === null) return;
+
+		for (const skip of skipped) {
+			console.warn(`[Bases CMS] Skipped ${skip.file.path} in ${macro.name}: ${skip.error}`);
+		}
+
+		// Commands act on the workspace rather than on each file, so they run once
+		const commands = (this.app as { commands?: { executeCommandById?: (id: string) => unknown } }).commands;
+		for (const commandId of getMacroCommands(macro)) {
+			await commands?.executeCommandById?.(commandId);
+		}
 
-		new Notice(`Removed ${cleanProperty} from ${files.length} file${files.length !== 1 ? 's' : ''}`);
+		let message = `Ran ${macro.name} on ${processed} file${processed !== 1 ? 's' : ''}`;
+		if (skipped.length > 0) {
+			message += `, skipped ${skipped.length}`;
+		}
+		new Notice(message);
 	}
 
 	/**
-	 * Batch process files with progress indication
+	 * Preview what runMacro would change
 	 */
-	private async batchProcessFiles(
-		files: string[],
-		processor: (file: TFile) => Promise<void>
-	): Promise<void> {
-		let processed = 0;
-		const total = files.length;
+	async previewMacro(files: string[], macro: BulkMacro, config: BasesCMSSettings, settings?: MacroSettings): Promise<BulkChangePreview> {
+		const targets = new Map(planMacro(this.app, files, macro, config, settings).map(target => [target.file.path, target]));
+		return buildChangePreview(this.app, files, (file) => {
+			const target = targets.get(file.path);
+			if (!target || target.error) return {};
+			return {
+				rename: target.newPath,
+				mutate: (fm) => applyMacroSteps(fm, macro.steps, file, settings),
+			};
+		});
+	}
 
+	/**
+	 * Map selected paths to their files, skipping paths that no longer exist
+	 */
+	private resolveFiles(files: string[]): Map<string, TFile> {
+		const entries = new Map<string, TFile>();
 		for (const filePath of files) {
 			const file = this.app.vault.getAbstractFileByPath(filePath);
 			if (file instanceof TFile) {
-				try {
-					await processor(file);
-					processed++;
-				} catch (error) {
-					console.error(`Error processing ${filePath}:`, error);
-				}
+				entries.set(filePath, file);
 			}
 		}
+		return entries;
+	}
 
-		if (processed < total) {
-			new Notice(`Processed ${processed} of ${total} files`);
-		}
+	/**
+	 * Create a folder (and its parents) if it does not exist yet
+	 */
+	private async ensureFolder(folderPath: string): Promise<void> {
+		const path = normalizePath(folderPath);
+		if (path === '/' || this.app.vault.getAbstractFileByPath(path)) return;
+		await this.app.vault.createFolder(path);
 	}
-}
 
+	/**
+	 * Apply a processor to each file as a bulk job
+	 * The processor gets the file's position among the files processed in this run,
+	 * which skips stale files left out and, on retry, covers only the failed files
+	 * Set includeBody when the processor edits the note body, so undo can restore it
+	 * Returns the number of files processed, or null when the job could not start
+	 */
+	private async batchProcessFiles(
+		files: string[],
+		processor: (file: TFile, index: number) => Promise<void>,
+		label: string,
+		includeBody = false
+	): Promise<number | null> {
+		return this.runJob(label, files, async (filePath, recorder, index) => {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (!(file instanceof TFile)) {
+				throw new Error('File not found');
+			}
 
+			await recorder?.captureBefore(file, includeBody);
+			try {
+				await processor(file, index);
+			} catch (error) {
+				// Keep partial changes undoable
+				await recorder?.captureAfter(file).catch(() => undefined);
+				throw error;
+			}
+			await recorder?.captureAfter(file);
+		});
+	}
+
+	/**
+	 * Export notes and their attachments to a folder outside the vault
+	 * Nothing in the vault is modified, so the export is not recorded for undo
+	 */
+	async exportFiles(files: string[], options: ExportOptions): Promise<void> {
+		const plan = planExport(this.app, files);
+		const targets = new Map(plan.items.map(item => [item.file.path, item.targetPath]));
+		const items = new Map(plan.items.map(item => [item.file.path, item]));
+		let notes = 0;
+		let attachments = 0;
+
+		const result = await this.runner.run({
+			label: 'Export',
+			paths: plan.items.map(item => item.file.path),
+			onStart: () => {
+				notes = 0;
+				attachments = 0;
+			},
+			process: async (path) => {
+				const item = items.get(path);
+				if (!item) return;
+				if (item.kind === 'note') {
+					const content = await this.app.vault.cachedRead(item.file);
+					await writeExportFile(options.destination, item.targetPath, prepareExportContent(this.app, item.file, content, options, targets));
+					notes++;
+				} else {
+					await writeExportFile(options.destination, item.targetPath, await this.app.vault.readBinary(item.file));
+					attachments++;
+				}
+			},
+		});
+		if (!result) return;
+
+		new Notice(`Exported ${notes} note${notes !== 1 ? 's' : ''} and ${attachments} attachment${attachments !== 1 ? 's' : ''} to ${options.destination}`);
+	}
+
+	/**
+	 * Run a bulk job through the job runner (progress, cancellation, locking, retry)
+	 * Every run, including a retry of failed files, is recorded in the journal (if any)
+	 * under the given label so it can be undone
+	 * Unless checkStale is false, files modified since they were selected are confirmed first
+	 * Returns the number of paths processed, or null when the job could not start
+	 */
+	private async runJob(
+		label: string,
+		paths: string[],
+		process: (path: string, recorder: JournalRecorder | null, index: number) => Promise<void>,
+		checkStale = true
+	): Promise<number | null> {
+		const targets = checkStale ? await this.confirmStaleFiles(label, paths) : paths;
+		if (targets === null) return null;
+
+		let recorder: JournalRecorder | null = null;
+		const result = await this.runner.run({
+			label,
+			paths: targets,
+			onStart: () => {
+				recorder = this.journal?.begin(label) ?? null;
+			},
+			process: (path, index) => process(path, recorder, index),
+			onFinish: (jobResult) => {
+				// Our own writes do not make the selection stale
+				this.selection?.refresh(this.app, recorder?.getRecords() ?? jobResult.succeeded.map(path => ({ path })));
+				this.journal?.commit(recorder);
+			},
+		});
+		return result ? result.succeeded.length : null;
+	}
+
+	/**
+	 * Ask whether to skip or overwrite files modified since they were selected
+	 * Returns the paths to process, or null when the operation is cancelled or nothing is left
+	 */
+	private async confirmStaleFiles(label: string, paths: string[]): Promise<string[] | null> {
+		const changed = this.selection?.findChanged(this.app, paths) ?? [];
+		if (changed.length === 0) return paths;
+
+		const skip = await new Promise<Set<string> | null>(resolve => {
+			new StaleFilesModal(this.app, changed, label, resolve).open();
+		});
+		if (skip === null) return null;
+
+		const remaining = paths.filter(path => !skip.has(path));
+		if (remaining.length === 0) {
+			new Notice('Every file was skipped');
+			return null;
+		}
+		return remaining;
+	}
+}
@@ -0,0 +1,109 @@
+/**
+ * Bulk change previews
+ * Computes per-file frontmatter diffs and renames before a bulk operation runs
+ */
+
+import { App, TFile } from 'obsidian';
+import { readFrontmatterSnapshot } from './frontmatter';
+
+export interface PropertyChange {
+	key: string;
+	oldValue: unknown;
+	newValue: unknown;
+	/** True when the key is removed rather than given a new value */
+	removed: boolean;
+}
+
+export interface FileChangePreview {
+	path: string;
+	/** Path the file will be renamed to, if the operation renames it */
+	newPath?: string;
+	changes: PropertyChange[];
+}
+
+export interface BulkChangePreview {
+	/** Files that the operation will modify */
+	changed: FileChangePreview[];
+	/** Files the operation would leave exactly as they are */
+	unaffected: string[];
+}
+
+/**
+ * Simulated effect of an operation on a single file
+ * mutate edits a copy of the file's frontmatter; rename returns the new path or null
+ */
+export interface SimulatedChange {
+	mutate?: (frontmatter: Record<string, unknown>) => void;
+	rename?: string | null;
+}
+
+/**
+ * Build a preview by simulating an operation against a copy of each file's frontmatter
+ */
+export async function buildChangePreview(
+	app: App,
+	files: string[],
+	simulate: (file: TFile) => SimulatedChange
+): Promise<BulkChangePreview> {
+	const changed: FileChangePreview[] = [];
+	const unaffected: string[] = [];
+
+	for (const filePath of files) {
+		const file = app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) continue;
+
+		const before = (await readFrontmatterSnapshot(app, file)) ?? {};
+		const after = cloneFrontmatter(before);
+		const simulated = simulate(file);
+		simulated.mutate?.(after);
+
+		const changes = diffFrontmatter(before, after);
+		const newPath = simulated.rename && simulated.rename !== file.path ? simulated.rename : undefined;
+
+		if (changes.length > 0 || newPath) {
+			changed.push({ path: file.path, newPath, changes });
+		} else {
+			unaffected.push(file.path);
+		}
+	}
+
+	return { changed, unaffected };
+}
+
+/**
+ * List keys whose values differ between two frontmatter objects
+ */
+export function diffFrontmatter(
+	before: Record<string, unknown>,
+	after: Record<string, unknown>
+): PropertyChange[] {
+	const changes: PropertyChange[] = [];
+	const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+	for (const key of keys) {
+		const oldValue = before[key];
+		const newValue = after[key];
+		const removed = newValue === undefined && oldValue !== undefined;
+		// A key set to undefined is removed; a missing key staying missing is no change
+		if (oldValue === undefined && newValue === undefined) continue;
+		if (!removed && JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+		changes.push({ key, oldValue, newValue, removed });
+	}
+
+	return changes;
+}
+
+/**
+ * Format a frontmatter value for display in previews
+ */
+export function formatPreviewValue(value: unknown): string {
+	if (value === undefined) return '(none)';
+	if (value === null || value === '') return '(empty)';
+	if (Array.isArray(value)) return `[${value.map(item => formatPreviewValue(item)).join(', ')}]`;
+	if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+	return JSON.stringify(value);
+}
+
+function cloneFrontmatter(frontmatter: Record<string, unknown>): Record<string, unknown> {
+	return JSON.parse(JSON.stringify(frontmatter)) as Record<string, unknown>;
+}
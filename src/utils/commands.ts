@@ -0,0 +1,125 @@
+/**
+ * Command registration
+ * Registers command palette entries for plugin-wide actions
+ */
+
+import { View } from 'obsidian';
+import type BasesCMSPlugin from '../main';
+import type { BasesCMSView } from '../views/cms-view';
+import { BulkHistoryModal } from '../components/bulk-history-modal';
+import { PublishLogModal } from '../components/publish-log-modal';
+
+/** Ids of the macro commands currently registered, so they can be replaced when macros change */
+let macroCommandIds: string[] = [];
+
+/**
+ * Register all plugin commands
+ */
+export function registerCommands(plugin: BasesCMSPlugin): void {
+	plugin.addCommand({
+		id: 'undo-bulk-operation',
+		name: 'Undo last bulk operation',
+		checkCallback: (checking: boolean) => {
+			if (!plugin.bulkJournal.canUndo()) return false;
+			if (!checking) {
+				void (async () => {
+					await plugin.bulkJournal.undo();
+					plugin.refreshAllViews();
+				})();
+			}
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'redo-bulk-operation',
+		name: 'Redo last bulk operation',
+		checkCallback: (checking: boolean) => {
+			if (!plugin.bulkJournal.canRedo()) return false;
+			if (!checking) {
+				void (async () => {
+					await plugin.bulkJournal.redo();
+					plugin.refreshAllViews();
+				})();
+			}
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'show-bulk-operation-history',
+		name: 'Show bulk operation history',
+		callback: () => {
+			new BulkHistoryModal(plugin.app, plugin.bulkJournal, () => plugin.refreshAllViews()).open();
+		}
+	});
+
+	plugin.addCommand({
+		id: 'show-scheduled-publish-log',
+		name: 'Show scheduled publish log',
+		callback: () => {
+			new PublishLogModal(plugin.app, plugin.settings.publishLog, async () => {
+				plugin.settings.publishLog = [];
+				await plugin.saveData(plugin.settings);
+			}).open();
+		}
+	});
+
+	plugin.addCommand({
+		id: 'copy-selection-as',
+		name: 'Copy selection as...',
+		checkCallback: (checking: boolean) => {
+			const view = getActiveCMSView(plugin);
+			if (!view || !view.hasSelection()) return false;
+			if (!checking) {
+				view.copySelectionAs();
+			}
+			return true;
+		}
+	});
+
+	registerMacroCommands(plugin);
+}
+
+/**
+ * Register a command for every macro, replacing the previously registered ones
+ * Called again whenever macros are edited in the settings
+ */
+export function registerMacroCommands(plugin: BasesCMSPlugin): void {
+	for (const id of macroCommandIds) {
+		plugin.removeCommand(id);
+	}
+	macroCommandIds = [];
+
+	for (const macro of plugin.settings.macros) {
+		const id = `run-macro-${macro.id}`;
+		plugin.addCommand({
+			id,
+			name: `Run macro: ${macro.name}`,
+			checkCallback: (checking: boolean) => {
+				const view = getActiveCMSView(plugin);
+				if (!view || !view.hasSelection()) return false;
+				if (!checking) {
+					view.runMacro(macro);
+				}
+				return true;
+			}
+		});
+		macroCommandIds.push(id);
+	}
+}
+
+/**
+ * CMS view shown in the active workspace leaf, if any
+ */
+function getActiveCMSView(plugin: BasesCMSPlugin): BasesCMSView | null {
+	const activeView = plugin.app.workspace.getActiveViewOfType(View);
+	if (!activeView) return null;
+	for (const view of plugin.activeViews) {
+		const containerEl = (view as unknown as { containerEl?: HTMLElement }).containerEl;
+		if (containerEl && activeView.containerEl.contains(containerEl)) {
+			return view;
+		}
+	}
+	return null;
+}
@@ -0,0 +1,157 @@
+/**
+ * Copy formats
+ * Turns selected entries into links, embeds, a Markdown table, CSV or JSON for the clipboard
+ * Property values are resolved the same way cards resolve them
+ */
+
+import { App, TFile, type BasesEntry } from 'obsidian';
+import { resolveBasesProperty, type CardData, type CMSSettings } from '../shared/data-transform';
+import { encodeLinkTarget } from './export-operations';
+
+export type CopyFormat = 'wikilinks' | 'markdown-links' | 'embeds' | 'table' | 'csv' | 'json';
+
+/** Labels of the formats, in the order they are offered */
+export const COPY_FORMAT_LABELS: Record<CopyFormat, string> = {
+	'wikilinks': 'Wikilinks',
+	'markdown-links': 'Markdown links',
+	'embeds': 'Embeds',
+	'table': 'Markdown table',
+	'csv': 'CSV',
+	'json': 'JSON',
+};
+
+/**
+ * Selected entry with its resolved title and property values
+ */
+export interface CopyEntry {
+	file: TFile;
+	title: string;
+	/** Resolved values keyed by property name; null when the entry does not have the property */
+	values: Record<string, string | null>;
+}
+
+/**
+ * Whether a format includes property values
+ */
+export function usesProperties(format: CopyFormat): boolean {
+	return format === 'table' || format === 'csv' || format === 'json';
+}
+
+/**
+ * Properties the view shows on cards, used as the default columns
+ */
+export function getViewProperties(settings: CMSSettings): string[] {
+	const props = [
+		settings.propertyDisplay1, settings.propertyDisplay2, settings.propertyDisplay3, settings.propertyDisplay4,
+		settings.propertyDisplay5, settings.propertyDisplay6, settings.propertyDisplay7, settings.propertyDisplay8,
+		settings.propertyDisplay9, settings.propertyDisplay10, settings.propertyDisplay11, settings.propertyDisplay12,
+		settings.propertyDisplay13, settings.propertyDisplay14,
+	];
+	return Array.from(new Set(props.filter(prop => prop && prop.trim().length > 0)));
+}
+
+/**
+ * Resolve a property of one entry like cards do
+ * Tag properties resolve to the tags themselves rather than the "tags" marker cards use
+ */
+function resolveCopyValue(property: string, entry: BasesEntry, card: CardData, settings: CMSSettings): string | null {
+	if (property === 'tags' || property === 'note.tags') {
+		return card.yamlTags.length > 0 ? card.yamlTags.join(', ') : null;
+	}
+	if (property === 'file.tags' || property === 'file tags') {
+		return card.tags.length > 0 ? card.tags.join(', ') : null;
+	}
+	return resolveBasesProperty(property, entry, card, settings);
+}
+
+/**
+ * Build copy entries from Bases entries and their card data (same order, one card per entry)
+ * Entries listed in several groups are copied once
+ */
+export function buildCopyEntries(
+	entries: BasesEntry[],
+	cards: CardData[],
+	properties: string[],
+	settings: CMSSettings
+): CopyEntry[] {
+	const result: CopyEntry[] = [];
+	const seen = new Set<string>();
+	entries.forEach((entry, index) => {
+		const card = cards[index];
+		if (!card || seen.has(entry.file.path)) return;
+		seen.add(entry.file.path);
+		const values: Record<string, string | null> = {};
+		for (const property of properties) {
+			values[property] = resolveCopyValue(property, entry, card, settings);
+		}
+		result.push({ file: entry.file, title: card.title || entry.file.basename, values });
+	});
+	return result;
+}
+
+/**
+ * Column header for a property (without the note. prefix)
+ */
+function getColumnName(property: string): string {
+	return property.startsWith('note.') ? property.substring(5) : property;
+}
+
+function escapeTableCell(value: string): string {
+	return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function escapeCsvCell(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Markdown link text, with brackets escaped so titles cannot break the link
+ */
+function escapeLinkText(text: string): string {
+	return text.replace(/([[\]])/g, '\\$1');
+}
+
+/**
+ * Format entries for the clipboard
+ */
+export function formatCopyText(app: App, entries: CopyEntry[], format: CopyFormat, properties: string[]): string {
+	switch (format) {
+		case 'wikilinks':
+			return entries.map(entry => {
+				const linktext = app.metadataCache.fileToLinktext(entry.file, '', true);
+				const alias = entry.title !== entry.file.basename ? `|${entry.title.replace(/[|\]]/g, ' ')}` : '';
+				return `- [[${linktext}${alias}]]`;
+			}).join('\n');
+		case 'markdown-links':
+			return entries.map(entry => `- [${escapeLinkText(entry.title)}](${encodeLinkTarget(entry.file.path, '')})`).join('\n');
+		case 'embeds':
+			return entries.map(entry => `![[${app.metadataCache.fileToLinktext(entry.file, '', false)}]]`).join('\n');
+		case 'table': {
+			const header = ['Title', ...properties.map(getColumnName)];
+			const rows = entries.map(entry => {
+				const link = `[[${app.metadataCache.fileToLinktext(entry.file, '', true)}\\|${entry.title.replace(/[|\]]/g, ' ')}]]`;
+				return [link, ...properties.map(prop => escapeTableCell(entry.values[prop] ?? ''))];
+			});
+			return [
+				`| ${header.map(escapeTableCell).join(' | ')} |`,
+				`| ${header.map(() => '---').join(' | ')} |`,
+				...rows.map(row => `| ${row.join(' | ')} |`),
+			].join('\n');
+		}
+		case 'csv': {
+			const header = ['path', 'title', ...properties.map(getColumnName)];
+			const rows = entries.map(entry => [entry.file.path, entry.title, ...properties.map(prop => entry.values[prop] ?? '')]);
+			return [header, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\n');
+		}
+		case 'json': {
+			const data = entries.map(entry => {
+				const item: Record<string, string | null> = { path: entry.file.path, title: entry.title };
+				for (const prop of properties) {
+					item[getColumnName(prop)] = entry.values[prop];
+				}
+				return item;
+			});
+			return JSON.stringify(data, null, 2);
+		}
+	}
+}
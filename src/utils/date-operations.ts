@@ -0,0 +1,193 @@
+/**
+ * Date utilities
+ * Shifts, stamps and spreads date properties across files while keeping each file's
+ * own format: dates stay dates and date & time values stay date & time
+ */
+
+import { moment } from 'obsidian';
+import { parseDate } from './property-conversion';
+import { GRID_DATE_FORMAT, GRID_DATETIME_FORMAT } from './grid-edit';
+
+export type DateShiftUnit = 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'years';
+
+/**
+ * Relative amount of time, such as +3 days or -1 week
+ */
+export interface DateShift {
+	amount: number;
+	unit: DateShiftUnit;
+}
+
+/**
+ * Change applied to a date property
+ * Fixed dates and spread start dates are entered as text and parsed when applied
+ */
+export type DateEdit =
+	| { mode: 'shift'; shift: DateShift }
+	| { mode: 'now' }
+	| { mode: 'fixed'; date: string }
+	| { mode: 'spread'; start: string; interval: DateShift };
+
+/** Labels of the edit modes, in the order they are offered */
+export const DATE_EDIT_MODE_LABELS: Record<DateEdit['mode'], string> = {
+	'shift': 'Shift by',
+	'now': 'Set to now',
+	'fixed': 'Set to date',
+	'spread': 'Spread at interval',
+};
+
+/** Words accepted for each unit, singular and plural forms included */
+const UNIT_ALIASES: Record<string, DateShiftUnit> = {
+	m: 'minutes', min: 'minutes', mins: 'minutes', minute: 'minutes', minutes: 'minutes',
+	h: 'hours', hr: 'hours', hrs: 'hours', hour: 'hours', hours: 'hours',
+	d: 'days', day: 'days', days: 'days',
+	w: 'weeks', wk: 'weeks', wks: 'weeks', week: 'weeks', weeks: 'weeks',
+	mo: 'months', month: 'months', months: 'months',
+	y: 'years', yr: 'years', yrs: 'years', year: 'years', years: 'years',
+};
+
+/**
+ * Date formats written by Obsidian's date and date & time properties
+ * A value keeps the format it was recognized in
+ */
+const VALUE_FORMATS: { pattern: RegExp; format: string }[] = [
+	{ pattern: /^\d{4}-\d{2}-\d{2}$/, format: GRID_DATE_FORMAT },
+	{ pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/, format: GRID_DATETIME_FORMAT },
+	{ pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/, format: `${GRID_DATETIME_FORMAT}:ss` },
+	{ pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}$/, format: `${GRID_DATETIME_FORMAT}:ss.SSS` },
+	{ pattern: /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}$/, format: 'YYYY-MM-DD HH:mm' },
+	{ pattern: /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/, format: 'YYYY-MM-DD HH:mm:ss' },
+];
+
+/** Formats accepted when entering a fixed date or a start date */
+const INPUT_FORMATS = ['YYYY-MM-DD', 'YYYY-MM-DD HH:mm', 'YYYY-MM-DDTHH:mm', 'YYYY-MM-DD HH:mm:ss'];
+
+/**
+ * Parse a relative amount such as "+3 days", "-1 week" or "2w"
+ */
+export function parseDateShift(text: string): DateShift | null {
+	const match = text.trim().toLowerCase().match(/^([+-]?)\s*(\d+)\s*([a-z]+)$/);
+	if (!match) return null;
+	const unit = UNIT_ALIASES[match[3]];
+	if (!unit) return null;
+	const amount = parseInt(match[2], 10);
+	return { amount: match[1] === '-' ? -amount : amount, unit };
+}
+
+/**
+ * Parse an entered date, noting whether it includes a time of day
+ */
+export function parseDateInput(text: string): { date: moment.Moment; hasTime: boolean } | null {
+	const trimmed = text.trim();
+	const date = parseDate(trimmed, INPUT_FORMATS);
+	if (!date) return null;
+	return { date, hasTime: /\d{1,2}:\d{2}/.test(trimmed) };
+}
+
+/**
+ * The format a stored value is written in, or null if it is not a date Obsidian recognizes
+ * Values with a time zone are not recognized, since rewriting them would shift them to local time
+ */
+export function detectDateFormat(value: unknown): string | null {
+	if (typeof value !== 'string') return null;
+	const trimmed = value.trim();
+	const match = VALUE_FORMATS.find(({ pattern }) => pattern.test(trimmed));
+	if (!match) return null;
+	return moment(trimmed, match.format, true).isValid() ? match.format : null;
+}
+
+function isMissingValue(value: unknown): boolean {
+	return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Target date of a fixed or spread edit, keeping the current time of day of date & time
+ * values when the entered date has no time
+ */
+function resolveTarget(
+	input: { date: moment.Moment; hasTime: boolean },
+	current: moment.Moment | null
+): moment.Moment {
+	const target = input.date.clone();
+	if (!input.hasTime && current) {
+		target.set({
+			hour: current.hours(),
+			minute: current.minutes(),
+			second: current.seconds(),
+			millisecond: current.milliseconds(),
+		});
+	}
+	return target;
+}
+
+/**
+ * Apply a date edit to a frontmatter object in place
+ * @param index - Position of the file among the files being edited, used to spread dates
+ * @param fallbackFormat - Format for files that do not have the property yet
+ * @returns false if the file was skipped because its value is not a date (or missing, when shifting)
+ */
+export function applyDateEdit(
+	frontmatter: Record<string, unknown>,
+	key: string,
+	edit: DateEdit,
+	index: number,
+	fallbackFormat: string
+): boolean {
+	const value = frontmatter[key];
+	const missing = isMissingValue(value);
+	const format = missing ? fallbackFormat : detectDateFormat(value);
+	if (!format) return false;
+
+	const current = missing ? null : moment((value as string).trim(), format, true);
+	let next: moment.Moment;
+
+	switch (edit.mode) {
+		case 'shift':
+			if (!current) return false;
+			next = current.clone().add(edit.shift.amount, edit.shift.unit);
+			break;
+		case 'now':
+			next = moment();
+			break;
+		case 'fixed': {
+			const input = parseDateInput(edit.date);
+			if (!input) return false;
+			next = resolveTarget(input, current);
+			break;
+		}
+		case 'spread': {
+			const input = parseDateInput(edit.start);
+			if (!input) return false;
+			next = resolveTarget(input, current)
+				.add(edit.interval.amount * index, edit.interval.unit);
+			break;
+		}
+	}
+
+	frontmatter[key] = next.format(format);
+	return true;
+}
+
+/**
+ * Format for files that do not have the property yet, from the property's assigned type
+ */
+export function getFallbackDateFormat(type: string | null): string {
+	return type === 'datetime' ? GRID_DATETIME_FORMAT : GRID_DATE_FORMAT;
+}
+
+function describeShift(shift: DateShift): string {
+	const unit = Math.abs(shift.amount) === 1 ? shift.unit.slice(0, -1) : shift.unit;
+	return `${shift.amount >= 0 ? '+' : '-'}${Math.abs(shift.amount)} ${unit}`;
+}
+
+/**
+ * Short description of a date edit, used as the operation label
+ */
+export function describeDateEdit(property: string, edit: DateEdit): string {
+	switch (edit.mode) {
+		case 'shift': return `Shift ${property} by ${describeShift(edit.shift)}`;
+		case 'now': return `Set ${property} to now`;
+		case 'fixed': return `Set ${property} to ${edit.date.trim()}`;
+		case 'spread': return `Spread ${property} from ${edit.start.trim()} every ${describeShift(edit.interval).replace(/^\+/, '')}`;
+	}
+}
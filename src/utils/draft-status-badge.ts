@@ -33,6 +33,56 @@ export function calculateDraftStatus(
 	return { booleanValue, isDraft };
 }
 
+/**
+ * Read a date property from an entry, or null when it is missing or not a date
+ */
+function getEntryDate(entry: BasesEntry, property: string): Date | null {
+	const value = getFirstBasesPropertyValue(entry, property);
+	const dateObj = value as { date?: Date; data?: unknown } | null;
+	if (dateObj && 'date' in dateObj && dateObj.date instanceof Date) {
+		return dateObj.date;
+	}
+	if (dateObj && 'data' in dateObj && (typeof dateObj.data === 'string' || typeof dateObj.data === 'number')) {
+		const parsedDate = new Date(dateObj.data);
+		if (!isNaN(parsedDate.getTime())) {
+			return parsedDate;
+		}
+	}
+	return null;
+}
+
+/**
+ * Publish date of a draft that is scheduled for the future, or null
+ */
+export function getScheduledPublishDate(entry: BasesEntry, settings: CMSSettings): Date | null {
+	if (!settings.publishAtProperty) {
+		return null;
+	}
+
+	const date = getEntryDate(entry, settings.publishAtProperty);
+	return date && date.getTime() > Date.now() ? date : null;
+}
+
+/**
+ * Expiry date of an entry whose expiry date has passed, or null
+ */
+export function getExpiredDate(entry: BasesEntry, settings: CMSSettings): Date | null {
+	if (!settings.expiresAtProperty) {
+		return null;
+	}
+
+	const date = getEntryDate(entry, settings.expiresAtProperty);
+	return date && date.getTime() <= Date.now() ? date : null;
+}
+
+/**
+ * Whether an entry is published but past its expiry date
+ */
+export function isExpiredEntry(entry: BasesEntry, settings: CMSSettings): boolean {
+	const { booleanValue, isDraft } = calculateDraftStatus(entry, settings);
+	return booleanValue !== null && !isDraft && getExpiredDate(entry, settings) !== null;
+}
+
 /**
  * Render draft status badge on a container element
  */
@@ -53,7 +103,17 @@ export function renderDraftStatusBadge(
 	// When filename prefix is enabled, booleanValue is always set, so badge always shows
 	if (booleanValue !== null) {
 		const statusBadge = container.createDiv('card-status-badge');
-		if (isDraft) {
+		const scheduledDate = isDraft ? getScheduledPublishDate(entry, settings) : null;
+		const expiredDate = isDraft ? null : getExpiredDate(entry, settings);
+		if (expiredDate) {
+			statusBadge.addClass('status-expired');
+			statusBadge.appendText('Expired');
+			statusBadge.setAttribute('title', `Expired ${expiredDate.toLocaleString()}. Click to move back to draft.`);
+		} else if (scheduledDate) {
+			statusBadge.addClass('status-scheduled');
+			statusBadge.appendText('Scheduled');
+			statusBadge.setAttribute('title', `Publishes ${scheduledDate.toLocaleString()}`);
+		} else if (isDraft) {
 			statusBadge.addClass('status-draft');
 			statusBadge.appendText('Draft');
 		} else {
@@ -0,0 +1,119 @@
+/**
+ * Duplicate utilities
+ * Plans copies of selected notes and resets properties on the copies
+ * Folder-based content (index files) is duplicated together with its parent folder
+ */
+
+import { App, TFile, TFolder, moment, normalizePath } from 'obsidian';
+import type { CMSSettings } from '../shared/data-transform';
+import type { BasesCMSSettings } from '../types';
+import { isFolderBasedContent } from './smart-deletion';
+import { expandRenamePattern, sanitizeFilename } from './rename-pattern';
+
+/** Pattern used when the duplicate name pattern setting is empty */
+const DEFAULT_DUPLICATE_PATTERN = '{basename} copy';
+
+export interface DuplicateTarget {
+	/** Selected note */
+	file: TFile;
+	/** File or folder that is copied */
+	source: TFile | TFolder;
+	/** Path of the copy of source */
+	newPath: string;
+	/** Path of the duplicated note once copied */
+	notePath: string;
+}
+
+/**
+ * Join a folder path and a child name, treating the vault root as an empty prefix
+ */
+function joinPath(folder: TFolder | null, name: string): string {
+	return normalizePath(folder && !folder.isRoot() ? `${folder.path}/${name}` : name);
+}
+
+/**
+ * Find a free path by appending " 2", " 3", ... to the name
+ */
+function findAvailablePath(app: App, folder: TFolder | null, name: string, extension: string, claimed: Set<string>): string {
+	const suffix = extension ? `.${extension}` : '';
+	let candidate = joinPath(folder, `${name}${suffix}`);
+	let counter = 2;
+	while (claimed.has(candidate) || app.vault.getAbstractFileByPath(candidate)) {
+		candidate = joinPath(folder, `${name} ${counter}${suffix}`);
+		counter++;
+	}
+	return candidate;
+}
+
+/**
+ * Work out where the copy of each selected note goes
+ */
+export function planDuplicates(
+	app: App,
+	files: string[],
+	config: BasesCMSSettings,
+	settings?: CMSSettings
+): DuplicateTarget[] {
+	const targets: DuplicateTarget[] = [];
+	const claimed = new Set<string>();
+	const copiedFolders = new Set<TFolder>();
+	const pattern = config.duplicateNamePattern.trim() || DEFAULT_DUPLICATE_PATTERN;
+	let counter = 1;
+
+	for (const filePath of files) {
+		const file = app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) continue;
+
+		const parent = file.parent;
+		if (parent && !parent.isRoot() && isFolderBasedContent(file, config)) {
+			// Several selected files can share a content folder; copy it once
+			if (copiedFolders.has(parent)) continue;
+			copiedFolders.add(parent);
+
+			const name = sanitizeFilename(expandRenamePattern(app, file, pattern, counter++, settings, parent.name)) || parent.name;
+			const newPath = findAvailablePath(app, parent.parent, name, '', claimed);
+			claimed.add(newPath);
+			targets.push({ file, source: parent, newPath, notePath: `${newPath}/${file.name}` });
+			continue;
+		}
+
+		const name = sanitizeFilename(expandRenamePattern(app, file, pattern, counter++, settings)) || file.basename;
+		const newPath = findAvailablePath(app, parent, name, file.extension, claimed);
+		claimed.add(newPath);
+		targets.push({ file, source: file, newPath, notePath: newPath });
+	}
+
+	return targets;
+}
+
+/**
+ * Reset the date property to today and clear the configured properties on a copy
+ * Draft status is reset separately because it may rename the file
+ */
+export function resetDuplicateProperties(
+	frontmatter: Record<string, unknown>,
+	config: BasesCMSSettings,
+	settings?: CMSSettings
+): void {
+	if (config.duplicateResetDate && settings?.dateProperty) {
+		const prop = settings.dateProperty.split(',')[0].trim();
+		if (prop && !prop.startsWith('file.')) {
+			const key = prop.startsWith('note.') ? prop.substring(5) : prop;
+			const current = frontmatter[key];
+			// Keep date & time values as date & time
+			const hasTime = typeof current === 'string' && current.includes('T');
+			frontmatter[key] = moment().format(hasTime ? 'YYYY-MM-DDTHH:mm:ss' : 'YYYY-MM-DD');
+		}
+	}
+
+	const cleared = config.duplicateClearProperties
+		.split(',')
+		.map(prop => prop.trim())
+		.filter(prop => prop.length > 0);
+	for (const prop of cleared) {
+		const key = prop.startsWith('note.') ? prop.substring(5) : prop;
+		if (key in frontmatter) {
+			frontmatter[key] = null;
+		}
+	}
+}
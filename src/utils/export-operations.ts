@@ -0,0 +1,282 @@
+/**
+ * Export utilities
+ * Plans and writes a self-contained copy of selected entries and their attachments
+ * to a folder outside the vault, keeping their folder structure
+ * Writing to the file system is only available in the desktop app
+ */
+
+import { App, TFile, Platform, getFrontMatterInfo, parseLinktext, parseYaml, stringifyYaml, type CachedMetadata } from 'obsidian';
+import { getAttachmentsInNote } from './attachment-detection';
+
+export interface ExportOptions {
+	/** Absolute path of the folder to export to */
+	destination: string;
+	/** Rewrite wikilinks and embeds to relative markdown links */
+	rewriteLinks: boolean;
+	/** Frontmatter properties left out of the exported notes */
+	stripProperties: string[];
+}
+
+/**
+ * File to export and where it goes, relative to the destination folder
+ */
+export interface ExportItem {
+	file: TFile;
+	targetPath: string;
+	kind: 'note' | 'attachment';
+}
+
+export interface ExportPlan {
+	items: ExportItem[];
+	/** Vault folder the exported paths are relative to */
+	root: string;
+}
+
+/**
+ * Whether exporting to a local folder is available on this device
+ */
+export function canExportToFolder(): boolean {
+	return Platform.isDesktopApp;
+}
+
+/**
+ * Deepest folder that contains every path
+ */
+function getCommonFolder(paths: string[]): string {
+	const folders = paths.map(path => path.split('/').slice(0, -1));
+	if (folders.length === 0) return '';
+	const common: string[] = [];
+	for (let i = 0; i < folders[0].length; i++) {
+		const segment = folders[0][i];
+		if (!folders.every(parts => parts[i] === segment)) break;
+		common.push(segment);
+	}
+	return common.join('/');
+}
+
+/**
+ * Collect the selected notes and their attachments, with paths relative to the
+ * deepest folder they share so folder-based content keeps its layout
+ */
+export function planExport(app: App, files: string[]): ExportPlan {
+	const notes: TFile[] = [];
+	const attachments = new Map<string, TFile>();
+
+	for (const filePath of files) {
+		const file = app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) continue;
+		notes.push(file);
+		for (const attachment of getAttachmentsInNote(app, file)) {
+			attachments.set(attachment.path, attachment);
+		}
+	}
+
+	// A selected note embedded by another one is exported once, as a note
+	for (const note of notes) {
+		attachments.delete(note.path);
+	}
+
+	const all = [...notes, ...attachments.values()];
+	const root = getCommonFolder(all.map(file => file.path));
+	const toTarget = (file: TFile) => root ? file.path.substring(root.length + 1) : file.path;
+
+	return {
+		root,
+		items: [
+			...notes.map(file => ({ file, targetPath: toTarget(file), kind: 'note' as const })),
+			...Array.from(attachments.values()).map(file => ({ file, targetPath: toTarget(file), kind: 'attachment' as const })),
+		],
+	};
+}
+
+/**
+ * Relative path from one exported file to another
+ */
+export function getRelativeLink(fromPath: string, toPath: string): string {
+	const from = fromPath.split('/').slice(0, -1);
+	const to = toPath.split('/');
+	let shared = 0;
+	while (shared < from.length && shared < to.length - 1 && from[shared] === to[shared]) {
+		shared++;
+	}
+	const up = from.slice(shared).map(() => '..');
+	return [...up, ...to.slice(shared)].join('/');
+}
+
+/**
+ * Markdown link target: spaces and other unsafe characters are percent-encoded
+ */
+export function encodeLinkTarget(path: string, subpath: string): string {
+	const encodedPath = path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+	return subpath ? `${encodedPath}#${encodeURIComponent(subpath.replace(/^#/, ''))}` : encodedPath;
+}
+
+/**
+ * Rewrite wikilinks and embeds in note content to relative markdown links
+ * Links to files that are not exported become their display text
+ */
+export function rewriteWikilinks(
+	app: App,
+	file: TFile,
+	content: string,
+	cache: CachedMetadata | null,
+	targets: Map<string, string>
+): string {
+	const sourceTarget = targets.get(file.path) ?? file.path;
+	const references = [...(cache?.links ?? []), ...(cache?.embeds ?? [])]
+		.filter(reference => reference.original.startsWith('[[') || reference.original.startsWith('![['))
+		.filter(reference => content.substring(reference.position.start.offset, reference.position.end.offset) === reference.original)
+		.sort((a, b) => b.position.start.offset - a.position.start.offset);
+
+	let result = content;
+	for (const reference of references) {
+		const isEmbed = reference.original.startsWith('!');
+		const { path, subpath } = parseLinktext(reference.link);
+		const dest = path ? app.metadataCache.getFirstLinkpathDest(path, file.path) : file;
+		const destTarget = dest ? targets.get(dest.path) : undefined;
+		// Wikilinks without an alias show the link text
+		const display = reference.displayText && reference.displayText !== reference.link
+			? reference.displayText
+			: (path ? path.split('/').pop() ?? path : subpath.replace(/^#/, ''));
+
+		let replacement: string;
+		if (destTarget !== undefined) {
+			const link = dest === file ? `#${encodeURIComponent(subpath.replace(/^#/, ''))}` : encodeLinkTarget(getRelativeLink(sourceTarget, destTarget), subpath);
+			replacement = `${isEmbed ? '!' : ''}[${display}](${link})`;
+		} else {
+			replacement = display;
+		}
+
+		result = result.substring(0, reference.position.start.offset) + replacement + result.substring(reference.position.end.offset);
+	}
+	return result;
+}
+
+/**
+ * Rewrite wikilink values in frontmatter (such as image: "[[cover.png]]") to relative paths
+ */
+function rewriteFrontmatterLinks(
+	app: App,
+	file: TFile,
+	frontmatter: Record<string, unknown>,
+	targets: Map<string, string>
+): void {
+	const sourceTarget = targets.get(file.path) ?? file.path;
+	const rewrite = (value: unknown): unknown => {
+		if (Array.isArray(value)) return value.map(rewrite);
+		if (typeof value !== 'string') return value;
+		const match = value.trim().match(/^!?\[\[([^\]]+)\]\]$/);
+		if (!match) return value;
+		const { path, subpath } = parseLinktext(match[1].split('|')[0]);
+		const dest = app.metadataCache.getFirstLinkpathDest(path, file.path);
+		const destTarget = dest ? targets.get(dest.path) : undefined;
+		return destTarget !== undefined ? encodeLinkTarget(getRelativeLink(sourceTarget, destTarget), subpath) : value;
+	};
+
+	for (const key of Object.keys(frontmatter)) {
+		frontmatter[key] = rewrite(frontmatter[key]);
+	}
+}
+
+/**
+ * Build the exported content of a note
+ */
+export function prepareExportContent(
+	app: App,
+	file: TFile,
+	content: string,
+	options: ExportOptions,
+	targets: Map<string, string>
+): string {
+	let result = content;
+	if (options.rewriteLinks) {
+		result = rewriteWikilinks(app, file, result, app.metadataCache.getFileCache(file), targets);
+	}
+
+	const info = getFrontMatterInfo(result);
+	if (!info.exists) return result;
+
+	const frontmatter = (parseYaml(info.frontmatter) ?? {}) as Record<string, unknown>;
+	const before = JSON.stringify(frontmatter);
+	for (const key of options.stripProperties) {
+		delete frontmatter[key];
+	}
+	if (options.rewriteLinks) {
+		rewriteFrontmatterLinks(app, file, frontmatter, targets);
+	}
+	// Leave the frontmatter exactly as written when nothing in it changes
+	if (JSON.stringify(frontmatter) === before) return result;
+
+	const body = result.substring(info.contentStart);
+	if (Object.keys(frontmatter).length === 0) return body;
+	return `---\n${stringifyYaml(frontmatter)}---\n${body}`;
+}
+
+/**
+ * Node modules used to write the export, only available in the desktop app (see canExportToFolder)
+ */
+function loadNodeModules(): { fs: typeof import('fs'); path: typeof import('path') } {
+	return {
+		// eslint-disable-next-line @typescript-eslint/no-require-imports, no-undef, import/no-nodejs-modules
+		fs: require('fs') as typeof import('fs'),
+		// eslint-disable-next-line @typescript-eslint/no-require-imports, no-undef, import/no-nodejs-modules
+		path: require('path') as typeof import('path'),
+	};
+}
+
+/**
+ * Whether a destination is an absolute folder path
+ * Relative paths would resolve against the app's working directory, not the vault
+ */
+export function isAbsoluteDestination(destination: string): boolean {
+	return loadNodeModules().path.isAbsolute(destination);
+}
+
+/**
+ * Target paths that already exist below the destination folder
+ */
+export async function findExistingExportFiles(destination: string, targetPaths: string[]): Promise<string[]> {
+	const { fs, path } = loadNodeModules();
+	const existing: string[] = [];
+	for (const targetPath of targetPaths) {
+		try {
+			await fs.promises.access(path.join(destination, ...targetPath.split('/')));
+			existing.push(targetPath);
+		} catch {
+			// Not there yet
+		}
+	}
+	return existing;
+}
+
+/**
+ * Write a file below the destination folder, creating folders as needed
+ */
+export async function writeExportFile(destination: string, targetPath: string, data: string | ArrayBuffer): Promise<void> {
+	const { fs, path } = loadNodeModules();
+	if (!path.isAbsolute(destination)) {
+		throw new Error(`Destination is not an absolute path: ${destination}`);
+	}
+	const fullPath = path.join(destination, ...targetPath.split('/'));
+	await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+	await fs.promises.writeFile(fullPath, typeof data === 'string' ? data : new Uint8Array(data));
+}
+
+/**
+ * Let the user pick a folder with the system dialog, when the desktop app exposes it
+ * Returns null when the dialog is unavailable or cancelled
+ */
+export async function pickExportFolder(): Promise<string | null> {
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-require-imports, no-undef
+		const electron = require('electron') as {
+			remote?: { dialog?: { showOpenDialog: (options: { properties: string[] }) => Promise<{ canceled: boolean; filePaths: string[] }> } };
+		};
+		const dialog = electron.remote?.dialog;
+		if (!dialog) return null;
+		const result = await dialog.showOpenDialog({ properties: ['openDirectory', 'createDirectory'] });
+		return result.canceled ? null : result.filePaths[0] ?? null;
+	} catch {
+		return null;
+	}
+}
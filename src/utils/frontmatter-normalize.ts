@@ -0,0 +1,144 @@
+/**
+ * Frontmatter normalization
+ * Rewrites frontmatter into a predictable shape: declared key order, no empty keys,
+ * and one format per property type (lists, ISO dates, booleans)
+ */
+
+import { App } from 'obsidian';
+import type { CMSSettings } from '../shared/data-transform';
+import { convertPropertyValue, parseDate } from './property-conversion';
+import { GRID_DATE_FORMAT, GRID_DATETIME_FORMAT, getAssignedType, type GridColumnType } from './grid-edit';
+
+export interface NormalizeOptions {
+	/** Keys listed first, in this order; other keys follow in their current order */
+	keyOrder: string[];
+	/** Remove keys that are null, empty text or empty lists */
+	removeEmpty: boolean;
+	/** Rewrite values to the canonical format of their property type */
+	canonicalFormats: boolean;
+	/** Property type assigned to a key, or null if it has none */
+	getType: (key: string) => GridColumnType | null;
+}
+
+/** Date formats recognized besides ISO 8601; day-first and month-first numeric dates are ambiguous and left alone */
+const DATE_INPUT_FORMATS = [
+	'YYYY-MM-DD',
+	'YYYY/MM/DD',
+	'YYYY.MM.DD',
+	'YYYY-MM-DD HH:mm',
+	'YYYY-MM-DD HH:mm:ss',
+	'MMMM D, YYYY',
+	'MMM D, YYYY',
+	'D MMMM YYYY',
+	'D MMM YYYY',
+];
+
+/**
+ * Normalization options of a view
+ */
+export function getNormalizeOptions(app: App, settings: CMSSettings): NormalizeOptions {
+	return {
+		keyOrder: settings.normalizeKeyOrder
+			.split(',')
+			.map(key => key.trim().replace(/^note\./, ''))
+			.filter(key => key.length > 0),
+		removeEmpty: settings.normalizeRemoveEmpty,
+		canonicalFormats: settings.normalizeFormats,
+		getType: (key) => getAssignedType(app, key),
+	};
+}
+
+function isEmptyValue(value: unknown): boolean {
+	return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Canonical form of a date or date & time value, or the value itself if it cannot be parsed
+ * Values with a time zone are left alone, since rewriting them would shift them to local time
+ */
+function normalizeDate(value: unknown, type: 'date' | 'datetime'): unknown {
+	if (typeof value !== 'string') return value;
+	const trimmed = value.trim();
+	if (/T\d{2}:\d{2}(:\d{2}(\.\d+)?)?([zZ]|[+-]\d{2}:?\d{2})$/.test(trimmed)) return value;
+
+	const parsed = parseDate(trimmed, DATE_INPUT_FORMATS);
+	if (!parsed) return value;
+
+	const hasTime = parsed.hours() !== 0 || parsed.minutes() !== 0 || parsed.seconds() !== 0;
+	// A date property holding a time keeps it rather than losing it
+	if (type === 'date' && !hasTime) return parsed.format(GRID_DATE_FORMAT);
+	return parsed.format(parsed.seconds() !== 0 ? `${GRID_DATETIME_FORMAT}:ss` : GRID_DATETIME_FORMAT);
+}
+
+/**
+ * Canonical form of a value for its property type
+ * Values that do not fit the type are left as they are
+ */
+export function normalizeValue(value: unknown, type: GridColumnType | null): unknown {
+	if (isEmptyValue(value)) return value;
+
+	switch (type) {
+		case 'list': {
+			const result = convertPropertyValue(value, { type: 'list', delimiter: ',', dateFormats: [] });
+			const list = result.status === 'converted' ? result.value as unknown[] : Array.isArray(value) ? value as unknown[] : null;
+			if (!list) return value;
+			return list
+				.map(item => typeof item === 'string' ? item.trim() : item)
+				.filter(item => !isEmptyValue(item));
+		}
+		case 'number':
+		case 'checkbox': {
+			const result = convertPropertyValue(value, { type, delimiter: ',', dateFormats: [] });
+			return result.status === 'converted' ? result.value : value;
+		}
+		case 'date':
+		case 'datetime':
+			return normalizeDate(value, type);
+		case 'text':
+		case null:
+			// Without an assigned type, "true" and "false" may well be meant as text, so they are left alone
+			return value;
+	}
+}
+
+/**
+ * Normalize a frontmatter object in place
+ */
+export function normalizeFrontmatter(fm: Record<string, unknown>, options: NormalizeOptions): void {
+	const entries = Object.keys(fm).map(key => [key, fm[key]] as [string, unknown]);
+
+	if (options.canonicalFormats) {
+		for (const entry of entries) {
+			entry[1] = normalizeValue(entry[1], options.getType(entry[0]));
+		}
+	}
+
+	const kept = options.removeEmpty ? entries.filter(([, value]) => !isEmptyValue(value)) : entries;
+
+	// Declared keys first, then everything else in its current order
+	const rank = (key: string) => {
+		const index = options.keyOrder.indexOf(key);
+		return index === -1 ? options.keyOrder.length : index;
+	};
+	const ordered = kept
+		.map((entry, index) => ({ entry, index }))
+		.sort((a, b) => rank(a.entry[0]) - rank(b.entry[0]) || a.index - b.index)
+		.map(({ entry }) => entry);
+
+	// Rebuild the object so the new key order is what gets written
+	for (const [key] of entries) {
+		delete fm[key];
+	}
+	for (const [key, value] of ordered) {
+		fm[key] = value;
+	}
+}
+
+/**
+ * Whether two frontmatter objects list the same keys in a different order
+ */
+export function hasKeyOrderChanged(before: Record<string, unknown>, after: Record<string, unknown>): boolean {
+	const beforeKeys = Object.keys(before).filter(key => key in after);
+	const afterKeys = Object.keys(after).filter(key => key in before);
+	return beforeKeys.some((key, index) => afterKeys[index] !== key);
+}
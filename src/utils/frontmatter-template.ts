@@ -0,0 +1,97 @@
+/**
+ * Frontmatter templates
+ * Merges the properties of a template note into other notes, with a mode per key
+ */
+
+import { App, TFile } from 'obsidian';
+import { canBeAppended, getValueType, readFrontmatterSnapshot, type NewPropData } from './frontmatter';
+import { detectColumnType } from './grid-edit';
+
+/**
+ * How a template key is merged into a note
+ * add-missing only fills keys the note does not have (or has empty),
+ * overwrite replaces the note's value, append adds the template's items to the note's list
+ */
+export type TemplateKeyMode = 'add-missing' | 'overwrite' | 'append' | 'skip';
+
+/** Labels of the modes, in the order they are offered */
+export const TEMPLATE_KEY_MODE_LABELS: Record<TemplateKeyMode, string> = {
+	'add-missing': 'Add if missing',
+	'overwrite': 'Overwrite',
+	'append': 'Append to list',
+	'skip': 'Skip',
+};
+
+/**
+ * Property of a template note and how to merge it
+ */
+export interface TemplateProperty {
+	key: string;
+	value: unknown;
+	/** Property type, as used by NewPropData */
+	type: string;
+	mode: TemplateKeyMode;
+}
+
+/**
+ * Read the properties of a template note, all set to add-missing
+ * Returns an empty list if the note has no frontmatter
+ */
+export async function readTemplateProperties(app: App, file: TFile): Promise<TemplateProperty[]> {
+	const frontmatter = (await readFrontmatterSnapshot(app, file)) ?? {};
+	return Object.keys(frontmatter).map(key => ({
+		key,
+		value: frontmatter[key],
+		type: detectColumnType(app, key, [frontmatter[key]]),
+		mode: 'add-missing',
+	}));
+}
+
+/**
+ * Whether a template key can be appended to lists
+ */
+export function canAppendTemplateProperty(property: TemplateProperty): boolean {
+	return canBeAppended(property.type, 'list');
+}
+
+function isMissingValue(value: unknown): boolean {
+	return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Build the property map that merges a template into one note's frontmatter
+ * Apply it with applyProperties (overwrite false); overwrite keys carry their own overwrite flag
+ */
+export function buildTemplatePropertyMap(
+	fm: Record<string, unknown>,
+	properties: TemplateProperty[]
+): Map<string, NewPropData> {
+	const props = new Map<string, NewPropData>();
+
+	for (const property of properties) {
+		const existing = fm[property.key];
+		const data = property.value as string | string[] | null;
+
+		switch (property.mode) {
+			case 'skip':
+				continue;
+			case 'add-missing':
+				if (!isMissingValue(existing)) continue;
+				props.set(property.key, { type: property.type, data, overwrite: true, delimiter: ',' });
+				break;
+			case 'overwrite':
+				props.set(property.key, { type: property.type, data, overwrite: true, delimiter: ',' });
+				break;
+			case 'append': {
+				if (isMissingValue(property.value)) continue;
+				// Numbers, dates and checkboxes already in the note are left alone rather than replaced
+				if (!isMissingValue(existing) && !canBeAppended('list', getValueType(existing))) continue;
+				const items = Array.isArray(property.value) ? property.value as string[] : [String(property.value)];
+				props.set(property.key, { type: 'list', data: items, overwrite: false, delimiter: ',' });
+				break;
+			}
+		}
+	}
+
+	return props;
+}
@@ -3,7 +3,8 @@
  * Ported from Multi-Properties plugin
  */
 
-import { App, TFile } from 'obsidian';
+import { App, TFile, getFrontMatterInfo, parseYaml } from 'obsidian';
+import { replaceInString, type SearchOptions } from './search-replace';
 
 export interface NewPropData {
 	type: string;
@@ -22,41 +23,53 @@ export async function addProperties(
 	overwrite: boolean
 ): Promise<void> {
 	await app.fileManager.processFrontMatter(file, (frontmatter) => {
-		const fm = frontmatter as Record<string, unknown>;
-		for (const [key, value] of props) {
-			// Tags should always be a List, even if there is just one tag.
-			if (
-				key === 'tags' &&
-				!Object.prototype.hasOwnProperty.call(fm, 'tags') &&
-				!Array.isArray(value.data)
-			) {
-				fm[key] = [value.data];
-				continue;
-			}
+		applyProperties(frontmatter as Record<string, unknown>, props, overwrite);
+	});
+}
 
-			if (!fm[key] || overwrite) {
-				fm[key] = value.data;
-				continue;
-			}
+/**
+ * Apply properties from a Map to a frontmatter object in place.
+ * Shared by addProperties and bulk change previews.
+ * A property whose overwrite flag is set replaces the existing value even when overwrite is false.
+ */
+export function applyProperties(
+	fm: Record<string, unknown>,
+	props: Map<string, NewPropData>,
+	overwrite: boolean
+): void {
+	for (const [key, value] of props) {
+		// Tags should always be a List, even if there is just one tag.
+		if (
+			key === 'tags' &&
+			!Object.prototype.hasOwnProperty.call(fm, 'tags') &&
+			!Array.isArray(value.data)
+		) {
+			fm[key] = [value.data];
+			continue;
+		}
 
-			// Compare types to see if they can be appended.
-			const type1 = value.type;
-			const existingValue = fm[key];
-			const type2 = Array.isArray(existingValue) ? 'list' : typeof existingValue === 'number' ? 'number' : typeof existingValue === 'boolean' ? 'checkbox' : 'text';
-
-			if (canBeAppended(type1, type2)) {
-				if (fm[key] === value.data) continue; // Leave identical values alone.
-				if (!value.data) continue; // Do not merge empty values.
-
-				const arr = mergeIntoArrays(fm[key] as string | string[], value.data);
-				fm[key] = arr;
-				continue;
-			} else {
-				fm[key] = value.data;
-				continue;
-			}
+		if (!fm[key] || overwrite || value.overwrite) {
+			fm[key] = value.data;
+			continue;
 		}
-	});
+
+		// Compare types to see if they can be appended.
+		const type1 = value.type;
+		const existingValue = fm[key];
+		const type2 = Array.isArray(existingValue) ? 'list' : typeof existingValue === 'number' ? 'number' : typeof existingValue === 'boolean' ? 'checkbox' : 'text';
+
+		if (canBeAppended(type1, type2)) {
+			if (fm[key] === value.data) continue; // Leave identical values alone.
+			if (!value.data) continue; // Do not merge empty values.
+
+			const arr = mergeIntoArrays(fm[key] as string | string[], value.data);
+			fm[key] = arr;
+			continue;
+		} else {
+			fm[key] = value.data;
+			continue;
+		}
+	}
 }
 
 /**
@@ -64,17 +77,23 @@ export async function addProperties(
  */
 export async function removeProperties(app: App, file: TFile, props: string[]): Promise<void> {
 	await app.fileManager.processFrontMatter(file, (frontmatter) => {
-		const fm = frontmatter as Record<string, unknown>;
-		for (const prop of props) {
-			fm[prop] = undefined; // "Hacky" workaround, commented code will work in later version."
-		}
+		clearProperties(frontmatter as Record<string, unknown>, props);
 	});
 }
 
+/**
+ * Remove properties from a frontmatter object in place.
+ */
+export function clearProperties(fm: Record<string, unknown>, props: string[]): void {
+	for (const prop of props) {
+		fm[prop] = undefined; // "Hacky" workaround, commented code will work in later version."
+	}
+}
+
 /**
  * Check if two types can be appended to each other.
  */
-function canBeAppended(str1: string, str2: string): boolean {
+export function canBeAppended(str1: string, str2: string): boolean {
 	const arr = ['number', 'date', 'datetime', 'checkbox']; // These values should not be appended.
 	if (arr.includes(str1) || arr.includes(str2)) return false;
 	return true;
@@ -83,7 +102,7 @@ function canBeAppended(str1: string, str2: string): boolean {
 /**
  * Convert strings and arrays into single array.
  */
-function mergeIntoArrays(...args: (string | string[])[]): string[] {
+export function mergeIntoArrays(...args: (string | string[])[]): string[] {
 	const arrays = args.map((arg) => (Array.isArray(arg) ? arg : [arg]));
 
 	// Flatten the array
@@ -95,4 +114,187 @@ function mergeIntoArrays(...args: (string | string[])[]): string[] {
 	return unique;
 }
 
+/**
+ * List operations offered for list properties.
+ */
+export type ListEditMode = 'add' | 'remove' | 'replace' | 'dedupe' | 'sort';
+
+export interface ListEdit {
+	mode: ListEditMode;
+	/** Items to add or remove, or the items to replace */
+	items: string[];
+	/** Item that replaces the matched items (replace mode only) */
+	replacement?: string;
+}
+
+/**
+ * Type name of an existing frontmatter value, as used by canBeAppended.
+ */
+export function getValueType(value: unknown): string {
+	return Array.isArray(value) ? 'list' : typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'checkbox' : 'text';
+}
 
+/**
+ * Apply a list operation to a frontmatter key in place.
+ * Items that are already there are kept; number and checkbox values are left alone.
+ */
+export function applyListEdit(fm: Record<string, unknown>, key: string, edit: ListEdit): void {
+	const current = fm[key];
+	const isEmpty = current === undefined || current === null || current === '';
+
+	if (edit.mode === 'add') {
+		if (edit.items.length === 0) return;
+		if (isEmpty) {
+			fm[key] = [...new Set(edit.items)];
+			return;
+		}
+		if (!canBeAppended('list', getValueType(current))) return;
+		fm[key] = mergeIntoArrays(current as string | string[], edit.items);
+		return;
+	}
+
+	if (isEmpty || !canBeAppended('list', getValueType(current))) return;
+	const list = Array.isArray(current) ? current as unknown[] : [current];
+
+	switch (edit.mode) {
+		case 'remove': {
+			const removed = new Set(edit.items);
+			const updated = list.filter(item => !removed.has(String(item)));
+			if (updated.length === list.length) return;
+			fm[key] = updated.length > 0 ? updated : undefined;
+			break;
+		}
+		case 'replace': {
+			const replacement = edit.replacement?.trim();
+			const matched = new Set(edit.items);
+			if (!replacement || !list.some(item => matched.has(String(item)))) return;
+			// Keep the position of the first replaced item; duplicates collapse into it
+			const updated = list.map(item => matched.has(String(item)) ? replacement : item);
+			fm[key] = mergeIntoArrays(updated as string[]);
+			break;
+		}
+		case 'dedupe': {
+			if (!Array.isArray(current)) return;
+			const updated = mergeIntoArrays(current as string[]);
+			if (updated.length === current.length) return;
+			fm[key] = updated;
+			break;
+		}
+		case 'sort': {
+			if (!Array.isArray(current)) return;
+			const updated = [...list].sort((a, b) => String(a).localeCompare(String(b)));
+			if (updated.every((item, index) => item === list[index])) return;
+			fm[key] = updated;
+			break;
+		}
+	}
+}
+
+/**
+ * Read a note's frontmatter straight from disk.
+ * Unlike the metadata cache, this reflects writes made moments ago.
+ * Returns null if the note has no frontmatter block.
+ */
+export async function readFrontmatterSnapshot(app: App, file: TFile): Promise<Record<string, unknown> | null> {
+	const content = await app.vault.read(file);
+	const info = getFrontMatterInfo(content);
+	if (!info.exists) return null;
+
+	const parsed = parseYaml(info.frontmatter) as unknown;
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+	return parsed as Record<string, unknown>;
+}
+
+/**
+ * Replace a note's frontmatter with a previously captured snapshot.
+ * Keys not present in the snapshot are removed, keys in the snapshot keep their order.
+ */
+export async function restoreFrontmatterSnapshot(
+	app: App,
+	file: TFile,
+	snapshot: Record<string, unknown> | null
+): Promise<void> {
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		const fm = frontmatter as Record<string, unknown>;
+		for (const key of Object.keys(fm)) {
+			delete fm[key];
+		}
+		if (snapshot) {
+			for (const key of Object.keys(snapshot)) {
+				fm[key] = snapshot[key];
+			}
+		}
+	});
+}
+
+/**
+ * Replace text in frontmatter string values in place.
+ * List items are matched individually; numbers, booleans and nested objects are left alone.
+ * Pass null as property to search every property.
+ * Returns true if any value changed.
+ */
+export function replaceInFrontmatter(
+	fm: Record<string, unknown>,
+	property: string | null,
+	pattern: RegExp,
+	options: SearchOptions
+): boolean {
+	let changed = false;
+	const keys = property ? [property] : Object.keys(fm);
+
+	for (const key of keys) {
+		const value = fm[key];
+		if (typeof value === 'string') {
+			const replaced = replaceInString(value, pattern, options);
+			if (replaced !== value) {
+				fm[key] = replaced;
+				changed = true;
+			}
+		} else if (Array.isArray(value)) {
+			let listChanged = false;
+			const items = value.map((item: unknown) => {
+				if (typeof item !== 'string') return item;
+				const replaced = replaceInString(item, pattern, options);
+				if (replaced !== item) listChanged = true;
+				return replaced;
+			});
+			if (listChanged) {
+				fm[key] = items;
+				changed = true;
+			}
+		}
+	}
+
+	return changed;
+}
+
+/**
+ * Result of renaming a key in a single frontmatter object
+ */
+export type RenameKeyResult = 'renamed' | 'missing' | 'conflict';
+
+/**
+ * Rename a frontmatter key in place, keeping its value and its position.
+ * If the target key already exists, the rename is skipped ('conflict') unless overwrite is set,
+ * in which case the existing target key is dropped and the renamed key takes the source's position.
+ */
+export function renameFrontmatterKey(
+	fm: Record<string, unknown>,
+	from: string,
+	to: string,
+	overwrite: boolean
+): RenameKeyResult {
+	if (!Object.prototype.hasOwnProperty.call(fm, from) || from === to) return 'missing';
+	if (Object.prototype.hasOwnProperty.call(fm, to) && !overwrite) return 'conflict';
+
+	// Rebuild the object so the renamed key stays where the old key was
+	const entries = Object.keys(fm).map(key => [key, fm[key]] as const);
+	for (const [key] of entries) {
+		delete fm[key];
+	}
+	for (const [key, value] of entries) {
+		if (key === to) continue;
+		fm[key === from ? to : key] = value;
+	}
+	return 'renamed';
+}
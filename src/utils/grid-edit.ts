@@ -0,0 +1,175 @@
+/**
+ * Grid edit utilities
+ * Column types, cell parsing and clipboard handling for the spreadsheet-style bulk editor
+ */
+
+import { App } from 'obsidian';
+import { parseDate } from './property-conversion';
+
+export type GridColumnType = 'text' | 'number' | 'checkbox' | 'date' | 'datetime' | 'list';
+
+/** Stored formats of date and date & time values, matching what Obsidian writes */
+export const GRID_DATE_FORMAT = 'YYYY-MM-DD';
+export const GRID_DATETIME_FORMAT = 'YYYY-MM-DDTHH:mm';
+
+/** Property widgets Obsidian stores as lists */
+const LIST_WIDGETS = ['multitext', 'tags', 'aliases'];
+
+/**
+ * Type assigned to a property in the vault's property types, if any
+ */
+export function getAssignedType(app: App, key: string): GridColumnType | null {
+	try {
+		const metadataCache = app.metadataCache as unknown as Record<string, unknown>;
+		const getAllPropertyInfos = metadataCache.getAllPropertyInfos as (() => Record<string, { widget?: string } | undefined>) | undefined;
+		const widget = typeof getAllPropertyInfos === 'function' ? getAllPropertyInfos()[key.toLowerCase()]?.widget : undefined;
+		if (widget && LIST_WIDGETS.includes(widget)) return 'list';
+		if (widget === 'number' || widget === 'checkbox' || widget === 'date' || widget === 'datetime') return widget;
+		if (widget === 'text') return 'text';
+	} catch {
+		// Property types are optional
+	}
+	return null;
+}
+
+/**
+ * Work out a column's input type from the property's assigned type,
+ * falling back to the first value found in the selection
+ */
+export function detectColumnType(app: App, key: string, values: unknown[]): GridColumnType {
+	const assigned = getAssignedType(app, key);
+	if (assigned) return assigned;
+
+	const sample = values.find(value => value !== undefined && value !== null && value !== '');
+	if (Array.isArray(sample)) return 'list';
+	if (typeof sample === 'number') return 'number';
+	if (typeof sample === 'boolean') return 'checkbox';
+	if (typeof sample === 'string') {
+		if (/^\d{4}-\d{2}-\d{2}$/.test(sample)) return 'date';
+		if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(sample)) return 'datetime';
+	}
+	return 'text';
+}
+
+/**
+ * Items of a list cell
+ */
+export function getListItems(value: unknown): string[] {
+	if (value === undefined || value === null || value === '') return [];
+	const items = Array.isArray(value) ? value as unknown[] : [value];
+	return items.map(item => String(item)).filter(item => item.trim().length > 0);
+}
+
+/**
+ * Text shown for a cell value when copying or in a text input
+ */
+export function formatCellText(value: unknown, type: GridColumnType): string {
+	if (value === undefined || value === null) return '';
+	if (type === 'list') return getListItems(value).join(', ');
+	if (Array.isArray(value)) return value.map(item => String(item)).join(', ');
+	if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+	return JSON.stringify(value);
+}
+
+/**
+ * Parse typed or pasted text into a value for the column type
+ * An empty cell removes the property; returns null when the text does not fit the type
+ */
+export function parseCellInput(text: string, type: GridColumnType): { value: unknown } | null {
+	const trimmed = text.trim();
+	if (trimmed === '') return { value: undefined };
+
+	switch (type) {
+		case 'number': {
+			const number = Number(trimmed);
+			return isNaN(number) ? null : { value: number };
+		}
+		case 'checkbox': {
+			const lower = trimmed.toLowerCase();
+			if (['true', 'yes', '1', 'x'].includes(lower)) return { value: true };
+			if (['false', 'no', '0'].includes(lower)) return { value: false };
+			return null;
+		}
+		case 'date': {
+			const parsed = parseDate(trimmed, []);
+			return parsed ? { value: parsed.format(GRID_DATE_FORMAT) } : null;
+		}
+		case 'datetime': {
+			const parsed = parseDate(trimmed, []);
+			return parsed ? { value: parsed.format(GRID_DATETIME_FORMAT) } : null;
+		}
+		case 'list':
+			return { value: trimmed.split(',').map(item => item.trim()).filter(item => item.length > 0) };
+		case 'text':
+			return { value: trimmed };
+	}
+}
+
+/**
+ * Split clipboard text copied from a spreadsheet into rows of cells
+ * Cells are tab-separated; quoted cells may contain tabs, newlines and doubled quotes
+ */
+export function parseClipboardGrid(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text.charAt(i);
+		if (quoted) {
+			if (char === '"' && text.charAt(i + 1) === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"' && cell === '') {
+			quoted = true;
+		} else if (char === '\t') {
+			row.push(cell);
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text.charAt(i + 1) === '\n') i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+
+	// Spreadsheets end the copied block with a newline; don't add an empty row for it
+	if (cell !== '' || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows;
+}
+
+/**
+ * Whether two cell values are the same
+ */
+export function isSameCellValue(a: unknown, b: unknown): boolean {
+	const empty = (value: unknown) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+	if (empty(a) && empty(b)) return true;
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Write the edited cells of one file into its frontmatter in place
+ * Cells set to undefined remove the property
+ */
+export function applyGridEdits(frontmatter: Record<string, unknown>, edits: Record<string, unknown>): void {
+	for (const [key, value] of Object.entries(edits)) {
+		if (value === undefined) {
+			// Assigning undefined would leave an empty "key:" line behind
+			delete frontmatter[key];
+		} else {
+			frontmatter[key] = value;
+		}
+	}
+}
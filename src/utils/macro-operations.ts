@@ -0,0 +1,255 @@
+/**
+ * Macro utilities
+ * Applies the steps of a user-defined macro and plans where each selected file ends up
+ * Frontmatter steps run in order; the last draft and move steps decide the final path
+ */
+
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import type { BasesCMSSettings, BulkMacro, MacroStep } from '../types';
+import { clearProperties } from './frontmatter';
+import { planMove, type MoveTarget } from './move-operations';
+import { isFolderBasedContent } from './smart-deletion';
+import { cleanPropertyName, planDraftChange, type DraftSettings } from './bulk-operations';
+import { addFrontmatterTags, getTagsKey, removeFrontmatterTags } from './tag-operations';
+import type { CMSSettings } from '../shared/data-transform';
+
+/** Labels of the step types, in the order they are offered */
+export const MACRO_STEP_LABELS: Record<MacroStep['type'], string> = {
+	'set-property': 'Set property',
+	'remove-property': 'Remove property',
+	'add-tags': 'Add tags',
+	'remove-tags': 'Remove tags',
+	'set-draft': 'Set draft status',
+	'move': 'Move to folder',
+	'run-command': 'Run command',
+};
+
+/**
+ * View settings a macro uses: draft status and the tags property
+ */
+export type MacroSettings = DraftSettings & Partial<Pick<CMSSettings, 'tagsProperty'>>;
+
+/**
+ * Planned effect of a macro on a single selected file
+ */
+export interface MacroTarget {
+	file: TFile;
+	/** Content folder moved together with the file (folder-based content), moved once per folder */
+	folderMove: Extract<MoveTarget, { kind: 'folder' }> | null;
+	/** Path of the file once the macro has run */
+	newPath: string;
+	/** Why the file cannot be processed */
+	error?: string;
+}
+
+/**
+ * New step of the given type with empty values
+ */
+export function createMacroStep(type: MacroStep['type']): MacroStep {
+	switch (type) {
+		case 'set-property': return { type, property: '', value: '' };
+		case 'remove-property': return { type, property: '' };
+		case 'add-tags': return { type, tags: '' };
+		case 'remove-tags': return { type, tags: '' };
+		case 'set-draft': return { type, draft: true };
+		case 'move': return { type, folder: '' };
+		case 'run-command': return { type, commandId: '', commandName: '' };
+	}
+}
+
+/**
+ * Short summary of a step for the settings list
+ */
+export function describeMacroStep(step: MacroStep): string {
+	switch (step.type) {
+		case 'set-property': return `Set ${step.property || '?'} to "${step.value}"`;
+		case 'remove-property': return `Remove ${step.property || '?'}`;
+		case 'add-tags': return `Add tags ${step.tags || '?'}`;
+		case 'remove-tags': return `Remove tags ${step.tags || '?'}`;
+		case 'set-draft': return step.draft ? 'Set to draft' : 'Set to published';
+		case 'move': return `Move to ${step.folder || '/'}`;
+		case 'run-command': return `Run ${step.commandName || step.commandId || '?'}`;
+	}
+}
+
+/**
+ * Split a comma-separated tag list, dropping "#" prefixes
+ */
+function parseTagList(tags: string): string[] {
+	return tags
+		.split(',')
+		.map(tag => tag.trim().replace(/^#/, ''))
+		.filter(tag => tag.length > 0);
+}
+
+/**
+ * Apply the frontmatter steps of a macro in order
+ * Draft steps only touch frontmatter in property mode; filename prefix mode is handled by planMacro
+ */
+export function applyMacroSteps(
+	frontmatter: Record<string, unknown>,
+	steps: MacroStep[],
+	file: TFile,
+	settings?: MacroSettings
+): void {
+	const tagsKey = getTagsKey(settings?.tagsProperty);
+	for (const step of steps) {
+		switch (step.type) {
+			case 'set-property': {
+				const property = cleanPropertyName(step.property.trim());
+				if (property) {
+					frontmatter[property] = step.value;
+				}
+				break;
+			}
+			case 'remove-property': {
+				const property = cleanPropertyName(step.property.trim());
+				if (property) {
+					clearProperties(frontmatter, [property]);
+				}
+				break;
+			}
+			case 'add-tags': {
+				const tags = parseTagList(step.tags);
+				if (tags.length > 0) {
+					addFrontmatterTags(frontmatter, tagsKey, tags);
+				}
+				break;
+			}
+			case 'remove-tags': {
+				const tags = parseTagList(step.tags);
+				if (tags.length > 0) {
+					removeFrontmatterTags(frontmatter, tagsKey, tags);
+				}
+				break;
+			}
+			case 'set-draft': {
+				const change = planDraftChange(file, step.draft, settings);
+				if (change.property) {
+					frontmatter[change.property] = change.value;
+				}
+				break;
+			}
+			case 'move':
+			case 'run-command':
+				// Handled by planMacro and after the macro has run
+				break;
+		}
+	}
+}
+
+/**
+ * Whether any step edits frontmatter
+ */
+export function hasFrontmatterSteps(macro: BulkMacro): boolean {
+	return macro.steps.some(step => step.type !== 'move' && step.type !== 'run-command');
+}
+
+/**
+ * Commands run once after the macro has been applied to the selection
+ */
+export function getMacroCommands(macro: BulkMacro): string[] {
+	return macro.steps
+		.filter((step): step is Extract<MacroStep, { type: 'run-command' }> => step.type === 'run-command')
+		.map(step => step.commandId)
+		.filter(id => id.length > 0);
+}
+
+/**
+ * Folder of the last move step, or null when the macro does not move files
+ */
+function getMoveFolder(macro: BulkMacro): string | null {
+	const moves = macro.steps.filter((step): step is Extract<MacroStep, { type: 'move' }> => step.type === 'move');
+	if (moves.length === 0) return null;
+	const normalized = normalizePath(moves[moves.length - 1].folder);
+	return normalized === '/' ? '' : normalized.replace(/^\/+/, '');
+}
+
+/**
+ * Draft status of the last draft step, or null when the macro does not change it
+ */
+function getDraftState(macro: BulkMacro): boolean | null {
+	const drafts = macro.steps.filter((step): step is Extract<MacroStep, { type: 'set-draft' }> => step.type === 'set-draft');
+	return drafts.length > 0 ? drafts[drafts.length - 1].draft : null;
+}
+
+/**
+ * The planned move of a content folder that contains the file, if any
+ */
+function findMovedFolder(
+	file: TFile,
+	folderMoves: Map<TFolder, Extract<MoveTarget, { kind: 'folder' }>>
+): Extract<MoveTarget, { kind: 'folder' }> | null {
+	for (let folder = file.parent; folder; folder = folder.parent) {
+		const move = folderMoves.get(folder);
+		if (move) return move;
+	}
+	return null;
+}
+
+/**
+ * Work out the folder moves and final path of every selected file
+ * Files that would collide with an existing file are returned with an error
+ */
+export function planMacro(
+	app: App,
+	files: string[],
+	macro: BulkMacro,
+	config: BasesCMSSettings,
+	settings?: MacroSettings
+): MacroTarget[] {
+	const moveFolder = getMoveFolder(macro);
+	const draft = getDraftState(macro);
+	const folderMoves = new Map<TFolder, Extract<MoveTarget, { kind: 'folder' }>>();
+	if (moveFolder !== null) {
+		for (const move of planMove(app, files, moveFolder, config).moves) {
+			if (move.kind === 'folder') {
+				folderMoves.set(move.folder, move);
+			}
+		}
+	}
+
+	const targets: MacroTarget[] = [];
+	const claimed = new Set<string>();
+	const assignedFolders = new Set<TFolder>();
+
+	for (const filePath of files) {
+		const file = app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) continue;
+
+		// Filename prefix mode renames the file within its folder
+		const draftPath = draft !== null ? planDraftChange(file, draft, settings).newPath : undefined;
+		const name = draftPath ? draftPath.substring(draftPath.lastIndexOf('/') + 1) : file.name;
+
+		const parent = file.parent;
+		let folderMove: MacroTarget['folderMove'] = null;
+		let folderPath: string;
+		if (parent && !parent.isRoot() && isFolderBasedContent(file, config)) {
+			// Content stays inside its folder; the folder itself is moved once
+			const move = folderMoves.get(parent);
+			if (move && !assignedFolders.has(parent)) {
+				assignedFolders.add(parent);
+				folderMove = move;
+			}
+			folderPath = move ? move.newPath : parent.path;
+		} else {
+			// Files inside a content folder that is moving go along with it
+			const containing = findMovedFolder(file, folderMoves);
+			if (containing && parent) {
+				folderPath = containing.newPath + parent.path.substring(containing.folder.path.length);
+			} else {
+				folderPath = moveFolder ?? (parent && !parent.isRoot() ? parent.path : '');
+			}
+		}
+
+		const newPath = normalizePath(folderPath ? `${folderPath}/${name}` : name);
+		let error: string | undefined;
+		if (newPath !== file.path && (claimed.has(newPath) || app.vault.getAbstractFileByPath(newPath))) {
+			error = `${newPath} already exists`;
+		}
+		claimed.add(newPath);
+		targets.push({ file, folderMove, newPath, error });
+	}
+
+	return targets;
+}
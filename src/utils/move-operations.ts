@@ -0,0 +1,122 @@
+/**
+ * Move utilities
+ * Plans where selected files end up when moved to another folder
+ * Folder-based content (index files) is moved together with its parent folder
+ */
+
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { BasesCMSSettings } from '../types';
+import { isFolderBasedContent } from './smart-deletion';
+
+export type MoveTarget =
+	| { kind: 'file'; file: TFile; newPath: string }
+	| { kind: 'folder'; file: TFile; folder: TFolder; newPath: string };
+
+export interface MovePlan {
+	moves: MoveTarget[];
+	/** Selected files that cannot be moved, with the reason */
+	skipped: { path: string; reason: string }[];
+}
+
+/**
+ * Folder path with the vault root as an empty string
+ */
+function toFolderPath(folder: TFolder | null): string {
+	return !folder || folder.isRoot() ? '' : folder.path;
+}
+
+/**
+ * Join a folder path and a child name, treating the vault root as an empty prefix
+ */
+function joinPath(folderPath: string, name: string): string {
+	return normalizePath(folderPath ? `${folderPath}/${name}` : name);
+}
+
+/**
+ * Whether a file lies inside one of the folders being moved
+ */
+function isInMovedFolder(file: TFile, movedFolders: Set<TFolder>): boolean {
+	for (let folder = file.parent; folder; folder = folder.parent) {
+		if (movedFolders.has(folder)) return true;
+	}
+	return false;
+}
+
+/**
+ * Work out the moves needed to put the selected files into the target folder
+ * The target folder does not need to exist yet; use an empty path for the vault root
+ */
+export function planMove(
+	app: App,
+	files: string[],
+	targetPath: string,
+	config: BasesCMSSettings
+): MovePlan {
+	const normalized = normalizePath(targetPath);
+	const target = normalized === '/' ? '' : normalized.replace(/^\/+/, '');
+	const moves: MoveTarget[] = [];
+	const skipped: MovePlan['skipped'] = [];
+	const claimedPaths = new Set<string>();
+	const movedFolders = new Set<TFolder>();
+
+	const selected = files
+		.map(filePath => app.vault.getAbstractFileByPath(filePath))
+		.filter((file): file is TFile => file instanceof TFile);
+
+	// Content folders first, so selection order does not decide whether a sibling moves with its folder
+	for (const file of selected) {
+		const parent = file.parent;
+		if (!parent || parent.isRoot() || !isFolderBasedContent(file, config)) continue;
+		// Several selected files can share a content folder; move it once
+		if (movedFolders.has(parent)) continue;
+
+		if (toFolderPath(parent.parent) === target) {
+			skipped.push({ path: file.path, reason: 'Already in this folder' });
+			continue;
+		}
+		if (target === parent.path || target.startsWith(`${parent.path}/`)) {
+			skipped.push({ path: file.path, reason: 'Cannot move a folder into itself' });
+			continue;
+		}
+
+		const newPath = joinPath(target, parent.name);
+		if (claimedPaths.has(newPath) || app.vault.getAbstractFileByPath(newPath)) {
+			skipped.push({ path: file.path, reason: `${newPath} already exists` });
+			continue;
+		}
+
+		claimedPaths.add(newPath);
+		movedFolders.add(parent);
+		moves.push({ kind: 'folder', file, folder: parent, newPath });
+	}
+
+	for (const file of selected) {
+		const parent = file.parent;
+		if (parent && !parent.isRoot() && isFolderBasedContent(file, config)) continue;
+		// Files inside a content folder that is moving go along with it
+		if (isInMovedFolder(file, movedFolders)) continue;
+
+		if (toFolderPath(parent) === target) {
+			skipped.push({ path: file.path, reason: 'Already in this folder' });
+			continue;
+		}
+
+		const newPath = joinPath(target, file.name);
+		if (claimedPaths.has(newPath) || app.vault.getAbstractFileByPath(newPath)) {
+			skipped.push({ path: file.path, reason: `${newPath} already exists` });
+			continue;
+		}
+
+		claimedPaths.add(newPath);
+		moves.push({ kind: 'file', file, newPath });
+	}
+
+	return { moves, skipped };
+}
+
+/**
+ * Path the selected file will have once its move has run
+ */
+export function getMovedFilePath(move: MoveTarget): string {
+	return move.kind === 'folder' ? `${move.newPath}/${move.file.name}` : move.newPath;
+}
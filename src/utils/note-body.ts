@@ -0,0 +1,74 @@
+/**
+ * Note body utilities
+ * Reads and rewrites the part of a note after its frontmatter
+ */
+
+import { App, TFile, getFrontMatterInfo, type TagCache } from 'obsidian';
+
+/**
+ * Split note content into the frontmatter block (with its delimiters) and the body
+ */
+export function splitNoteContent(content: string): { frontmatter: string; body: string } {
+	const info = getFrontMatterInfo(content);
+	if (!info.exists) return { frontmatter: '', body: content };
+	return { frontmatter: content.substring(0, info.contentStart), body: content.substring(info.contentStart) };
+}
+
+/**
+ * Read a note's body straight from disk
+ */
+export async function readBodySnapshot(app: App, file: TFile): Promise<string> {
+	return splitNoteContent(await app.vault.read(file)).body;
+}
+
+/**
+ * Replace a note's body with a previously captured snapshot, keeping its current frontmatter
+ */
+export async function restoreBodySnapshot(app: App, file: TFile, body: string): Promise<void> {
+	await app.vault.process(file, (content) => splitNoteContent(content).frontmatter + body);
+}
+
+/**
+ * Replace or remove inline tags in note content
+ * replace gets each cached tag (with its "#") and returns its replacement, null to remove it,
+ * or undefined to leave it alone
+ * Uses the tag positions from the metadata cache, so tags in code blocks are left alone;
+ * positions that no longer match the content are skipped
+ */
+export function replaceInlineTags(
+	content: string,
+	tagCaches: TagCache[],
+	replace: (tag: string) => string | null | undefined
+): { content: string; changed: number } {
+	const ranges = tagCaches
+		.map(cache => ({ start: cache.position.start.offset, end: cache.position.end.offset, tag: cache.tag, replacement: replace(cache.tag) }))
+		.filter(range => range.replacement !== undefined && range.replacement !== range.tag)
+		.filter(range => content.substring(range.start, range.end) === range.tag)
+		.sort((a, b) => b.start - a.start);
+
+	let result = content;
+	for (const range of ranges) {
+		if (range.replacement) {
+			result = result.substring(0, range.start) + range.replacement + result.substring(range.end);
+			continue;
+		}
+		let start = range.start;
+		// Take a separating space with the tag so no double spaces are left behind
+		const next = result.charAt(range.end);
+		if (start > 0 && result.charAt(start - 1) === ' ' && (next === '' || /\s/.test(next))) {
+			start--;
+		}
+		result = result.substring(0, start) + result.substring(range.end);
+	}
+
+	return { content: result, changed: ranges.length };
+}
+
+/**
+ * Remove inline occurrences of the given tags from note content
+ */
+export function stripInlineTags(content: string, tagCaches: TagCache[], tags: string[]): { content: string; removed: number } {
+	const targets = new Set(tags.map(tag => tag.replace(/^#/, '').toLowerCase()));
+	const result = replaceInlineTags(content, tagCaches, tag => targets.has(tag.replace(/^#/, '').toLowerCase()) ? null : undefined);
+	return { content: result.content, removed: result.changed };
+}
@@ -54,36 +54,56 @@ function restoreEscapedChars(text: string, map: Map<string, string>): string {
 	return result;
 }
 
-function removeCodeBlocks(text: string): string {
-	let result = text;
-	let changed = true;
-	while (changed) {
-		changed = false;
-		const openMatch = result.match(/^([`~]{3,})/m);
+/**
+ * Range of text, from start (inclusive) to end (exclusive)
+ */
+export interface TextRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Find fenced code blocks (``` or ~~~) in Markdown text
+ * A block ends at a closing fence of the same length; an opening fence
+ * without one only covers its own line
+ */
+export function findCodeBlockRanges(text: string): TextRange[] {
+	const ranges: TextRange[] = [];
+	const openPattern = /^([`~]{3,})/gm;
+	let position = 0;
+	while (position < text.length) {
+		openPattern.lastIndex = position;
+		const openMatch = openPattern.exec(text);
 		if (!openMatch) break;
 		const fenceChar = openMatch[1][0];
 		const fenceLength = openMatch[1].length;
-		const openIndex = openMatch.index!;
+		const openIndex = openMatch.index;
 		const escapedChar = fenceChar.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 		const closePattern = new RegExp(`^${escapedChar}{${fenceLength}}\\s*$`, 'm');
-		const afterOpen = result.substring(openIndex + openMatch[1].length);
+		const afterOpen = text.substring(openIndex + openMatch[1].length);
 		const closeMatch = afterOpen.match(closePattern);
+		let end: number;
 		if (closeMatch) {
 			const closeIndex = openIndex + openMatch[1].length + closeMatch.index!;
-			const blockEnd = closeIndex + closeMatch[0].length;
-			result = result.substring(0, openIndex) + result.substring(blockEnd);
-			changed = true;
+			end = closeIndex + closeMatch[0].length;
 		} else {
-			const lineEnd = result.indexOf('\n', openIndex);
-			if (lineEnd === -1) {
-				result = result.substring(0, openIndex);
-			} else {
-				result = result.substring(0, openIndex) + result.substring(lineEnd + 1);
-			}
-			changed = true;
+			const lineEnd = text.indexOf('\n', openIndex);
+			end = lineEnd === -1 ? text.length : lineEnd + 1;
 		}
+		ranges.push({ start: openIndex, end });
+		position = end;
 	}
-	return result;
+	return ranges;
+}
+
+function removeCodeBlocks(text: string): string {
+	let result = '';
+	let position = 0;
+	for (const range of findCodeBlockRanges(text)) {
+		result += text.substring(position, range.start);
+		position = range.end;
+	}
+	return result + text.substring(position);
 }
 
 function stripMarkdownSyntax(text: string): string {
@@ -0,0 +1,136 @@
+/**
+ * Property type conversion utilities
+ * Converts frontmatter values between the property types used by NewPropData
+ */
+
+import { moment } from 'obsidian';
+import type { NewPropData } from './frontmatter';
+
+/** Property types a value can be converted to */
+export type ConvertiblePropType = 'list' | 'number' | 'checkbox' | 'date' | 'datetime';
+
+/**
+ * Conversion target and parsing rules
+ * type and delimiter follow NewPropData; dateFormats are the accepted input formats (moment syntax)
+ */
+export interface ConversionOptions extends Pick<NewPropData, 'delimiter'> {
+	type: ConvertiblePropType;
+	dateFormats: string[];
+}
+
+/**
+ * Per-file outcome of a bulk conversion
+ */
+export interface ConversionReport {
+	converted: { path: string; from: unknown; to: unknown }[];
+	failed: { path: string; value: unknown; reason: string }[];
+	/** Files where the property is missing, empty or already of the target type */
+	unchanged: string[];
+}
+
+export type ConversionResult =
+	| { status: 'converted'; value: unknown }
+	| { status: 'unchanged' }
+	| { status: 'failed'; reason: string };
+
+/** Formats used when writing dates, matching Obsidian's property editor */
+const DATE_OUTPUT_FORMAT = 'YYYY-MM-DD';
+const DATETIME_OUTPUT_FORMAT = 'YYYY-MM-DDTHH:mm:ss';
+
+const TRUE_VALUES = ['true', 'yes', 'on', '1'];
+const FALSE_VALUES = ['false', 'no', 'off', '0'];
+
+/**
+ * Convert a single value to the target type
+ * Values that cannot be parsed are reported as failed and should be left alone
+ */
+export function convertPropertyValue(value: unknown, options: ConversionOptions): ConversionResult {
+	if (value === null || value === undefined || value === '') {
+		return { status: 'unchanged' };
+	}
+
+	const result = convertValue(value, options);
+	if (result.status === 'converted' && JSON.stringify(result.value) === JSON.stringify(value)) {
+		return { status: 'unchanged' };
+	}
+	return result;
+}
+
+function convertValue(value: unknown, options: ConversionOptions): ConversionResult {
+	switch (options.type) {
+		case 'list':
+			return toList(value, options.delimiter);
+		case 'number':
+			return toNumber(value);
+		case 'checkbox':
+			return toCheckbox(value);
+		case 'date':
+			return toDate(value, options.dateFormats, DATE_OUTPUT_FORMAT);
+		case 'datetime':
+			return toDate(value, options.dateFormats, DATETIME_OUTPUT_FORMAT);
+	}
+}
+
+function toList(value: unknown, delimiter: string): ConversionResult {
+	if (Array.isArray(value)) {
+		return { status: 'converted', value };
+	}
+	if (typeof value === 'string') {
+		const items = (delimiter ? value.split(delimiter) : [value])
+			.map(item => item.trim())
+			.filter(item => item.length > 0);
+		return { status: 'converted', value: items };
+	}
+	if (typeof value === 'number' || typeof value === 'boolean') {
+		return { status: 'converted', value: [value] };
+	}
+	return { status: 'failed', reason: 'Not a text value' };
+}
+
+function toNumber(value: unknown): ConversionResult {
+	if (typeof value === 'number') {
+		return { status: 'converted', value };
+	}
+	if (typeof value === 'string') {
+		const trimmed = value.trim();
+		const parsed = Number(trimmed);
+		if (trimmed !== '' && !isNaN(parsed)) {
+			return { status: 'converted', value: parsed };
+		}
+		return { status: 'failed', reason: `"${value}" is not a number` };
+	}
+	return { status: 'failed', reason: 'Not a text value' };
+}
+
+function toCheckbox(value: unknown): ConversionResult {
+	if (typeof value === 'boolean') {
+		return { status: 'converted', value };
+	}
+	if (typeof value === 'string' || typeof value === 'number') {
+		const normalized = String(value).trim().toLowerCase();
+		if (TRUE_VALUES.includes(normalized)) return { status: 'converted', value: true };
+		if (FALSE_VALUES.includes(normalized)) return { status: 'converted', value: false };
+		return { status: 'failed', reason: `"${normalized}" is not true or false` };
+	}
+	return { status: 'failed', reason: 'Not a text value' };
+}
+
+function toDate(value: unknown, dateFormats: string[], outputFormat: string): ConversionResult {
+	if (typeof value !== 'string') {
+		return { status: 'failed', reason: 'Not a text value' };
+	}
+	const parsed = parseDate(value.trim(), dateFormats);
+	if (!parsed) {
+		return { status: 'failed', reason: `"${value}" does not match any date format` };
+	}
+	return { status: 'converted', value: parsed.format(outputFormat) };
+}
+
+/**
+ * Parse a date string strictly against the given formats, falling back to ISO 8601
+ */
+export function parseDate(value: string, dateFormats: string[]): moment.Moment | null {
+	const formats = dateFormats.filter(format => format.trim().length > 0);
+	const parsed = moment(value, [...formats, moment.ISO_8601], true);
+	return parsed.isValid() ? parsed : null;
+}
@@ -5,6 +5,7 @@
 
 import { App, TFile } from 'obsidian';
 import { readCMSSettings } from '../shared/settings-schema';
+import type { CMSSettings } from '../shared/data-transform';
 import type { BasesCMSSettings } from '../types';
 
 interface BasesConfig {
@@ -38,48 +39,7 @@ export class PropertyToggleHandler {
 			let shouldRefresh = false;
 
 			if (isDraftProperty) {
-				// Check if using filename prefix mode
-				if (settings.draftStatusUseFilenamePrefix) {
-					// Always use filename-based detection when this setting is enabled
-					const fileName = file.basename; // basename excludes extension
-					const startsWithUnderscore = fileName.startsWith('_');
-					const currentPath = file.path;
-					const pathParts = currentPath.split('/');
-					
-					// Toggle based on desired state: if value is true (draft), ensure underscore; if false (published), remove it
-					if (value === true) {
-						// Toggling to draft - add underscore if not present
-						if (!startsWithUnderscore) {
-							const newName = `_${fileName}${file.extension ? `.${file.extension}` : ''}`;
-							pathParts[pathParts.length - 1] = newName;
-							const newPath = pathParts.join('/');
-							await this.app.fileManager.renameFile(file, newPath);
-							shouldRefresh = true;
-						}
-					} else {
-						// Toggling to published - remove underscore if present
-						if (startsWithUnderscore) {
-							const newName = fileName.substring(1) + (file.extension ? `.${file.extension}` : '');
-							pathParts[pathParts.length - 1] = newName;
-							const newPath = pathParts.join('/');
-							await this.app.fileManager.renameFile(file, newPath);
-							shouldRefresh = true;
-						}
-					}
-				} else {
-					// Use property-based detection (frontmatter)
-					const cleanConfigProperty = settings.draftStatusProperty && settings.draftStatusProperty.trim()
-						? (settings.draftStatusProperty.startsWith('note.') 
-							? settings.draftStatusProperty.substring(5) 
-							: settings.draftStatusProperty)
-						: 'draft';
-					
-					await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
-						const fm = frontmatter as Record<string, unknown>;
-						fm[cleanConfigProperty] = value;
-					});
-					shouldRefresh = true;
-				}
+				shouldRefresh = await this.applyDraftToggle(file, value, settings);
 			} else {
 				// Normal property toggle - update frontmatter
 				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
@@ -106,6 +66,58 @@ export class PropertyToggleHandler {
 			console.error('Error toggling property:', error);
 		}
 	}
-}
 
+	/**
+	 * Set the draft status of a file to the given raw value
+	 * Handles filename prefix mode and the configured draft property
+	 * Returns whether the file was changed
+	 */
+	private async applyDraftToggle(file: TFile, value: unknown, settings: CMSSettings): Promise<boolean> {
+		let changed = false;
+
+		// Check if using filename prefix mode
+		if (settings.draftStatusUseFilenamePrefix) {
+			// Always use filename-based detection when this setting is enabled
+			const fileName = file.basename; // basename excludes extension
+			const startsWithUnderscore = fileName.startsWith('_');
+			const currentPath = file.path;
+			const pathParts = currentPath.split('/');
+			
+			// Toggle based on desired state: if value is true (draft), ensure underscore; if false (published), remove it
+			if (value === true) {
+				// Toggling to draft - add underscore if not present
+				if (!startsWithUnderscore) {
+					const newName = `_${fileName}${file.extension ? `.${file.extension}` : ''}`;
+					pathParts[pathParts.length - 1] = newName;
+					const newPath = pathParts.join('/');
+					await this.app.fileManager.renameFile(file, newPath);
+					changed = true;
+				}
+			} else {
+				// Toggling to published - remove underscore if present
+				if (startsWithUnderscore) {
+					const newName = fileName.substring(1) + (file.extension ? `.${file.extension}` : '');
+					pathParts[pathParts.length - 1] = newName;
+					const newPath = pathParts.join('/');
+					await this.app.fileManager.renameFile(file, newPath);
+					changed = true;
+				}
+			}
+		} else {
+			// Use property-based detection (frontmatter)
+			const cleanConfigProperty = settings.draftStatusProperty && settings.draftStatusProperty.trim()
+				? (settings.draftStatusProperty.startsWith('note.') 
+					? settings.draftStatusProperty.substring(5) 
+					: settings.draftStatusProperty)
+				: 'draft';
+			
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const fm = frontmatter as Record<string, unknown>;
+				fm[cleanConfigProperty] = value;
+			});
+			changed = true;
+		}
 
+		return changed;
+	}
+}
@@ -0,0 +1,261 @@
+/**
+ * Rename pattern utilities
+ * Builds new filenames from a pattern of tokens such as {title}, {slug} and {date:YYYY-MM-DD}
+ */
+
+import { App, TFile, TFolder, moment, normalizePath } from 'obsidian';
+import type { CMSSettings } from '../shared/data-transform';
+import type { BasesCMSSettings } from '../types';
+import { isFolderBasedContent } from './smart-deletion';
+import { parseDate } from './property-conversion';
+
+/** Date format used when a {date} token has no format */
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/** Characters Obsidian does not allow in file names or links */
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+export interface RenamePatternOptions {
+	pattern: string;
+	/** Number used for the {counter} token of the first file */
+	counterStart: number;
+	/** Rename the parent folder instead of the file for folder-based content */
+	renameFolders: boolean;
+}
+
+/**
+ * Planned rename for a single selected file
+ */
+export interface RenamePlanItem {
+	file: TFile;
+	/** File or folder that is renamed */
+	target: TFile | TFolder;
+	oldName: string;
+	newName: string;
+	newPath: string;
+	/** Why the rename cannot run, if it cannot */
+	error?: string;
+}
+
+/**
+ * Turn text into a URL-friendly slug
+ */
+export function slugify(text: string): string {
+	return text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Remove characters that are not allowed in file names
+ */
+export function sanitizeFilename(name: string): string {
+	return name
+		.replace(INVALID_FILENAME_CHARS, '')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Format a frontmatter value as text (lists are joined with commas)
+ */
+export function formatTokenValue(value: unknown): string {
+	if (value === null || value === undefined) return '';
+	if (Array.isArray(value)) {
+		return value.map(item => formatTokenValue(item)).filter(item => item.length > 0).join(', ');
+	}
+	if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+		return String(value);
+	}
+	return '';
+}
+
+/**
+ * Resolve a file's title the way cards do: first non-empty title property, then the file name
+ */
+export function resolveTitle(file: TFile, frontmatter: Record<string, unknown>, settings?: CMSSettings): string {
+	const properties = (settings?.titleProperty ?? 'title').split(',').map(prop => prop.trim());
+	for (const prop of properties) {
+		if (!prop || prop.startsWith('file.')) continue;
+		const key = prop.startsWith('note.') ? prop.substring(5) : prop;
+		const value = formatTokenValue(frontmatter[key]);
+		if (value.trim().length > 0) return value;
+	}
+	return file.basename;
+}
+
+/**
+ * Resolve a file's date from the view's date property, falling back to its creation time
+ */
+export function resolveDate(file: TFile, frontmatter: Record<string, unknown>, settings?: CMSSettings): moment.Moment {
+	const prop = settings?.dateProperty?.split(',')[0]?.trim() ?? '';
+	if (prop === 'file.mtime') return moment(file.stat.mtime);
+	if (prop && !prop.startsWith('file.')) {
+		const key = prop.startsWith('note.') ? prop.substring(5) : prop;
+		const value = frontmatter[key];
+		if (typeof value === 'string') {
+			const parsed = parseDate(value.trim(), []);
+			if (parsed) return parsed;
+		}
+	}
+	return moment(file.stat.ctime);
+}
+
+/**
+ * Expand a rename pattern for one file
+ * Supported tokens: {title}, {slug}, {basename}, {date}, {date:FORMAT}, {counter}, {counter:WIDTH}
+ * and {property} for any frontmatter property
+ * basename overrides {basename}, e.g. with the folder name for folder-based content
+ */
+export function expandRenamePattern(
+	app: App,
+	file: TFile,
+	pattern: string,
+	counter: number,
+	settings?: CMSSettings,
+	basename: string = file.basename
+): string {
+	const frontmatter = (app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+
+	return pattern.replace(/\{([^{}:]+)(?::([^{}]*))?\}/g, (match, rawToken: string, argument?: string) => {
+		const token = rawToken.trim();
+		switch (token) {
+			case 'title':
+				return resolveTitle(file, frontmatter, settings);
+			case 'slug':
+				return slugify(resolveTitle(file, frontmatter, settings));
+			case 'basename':
+				return basename;
+			case 'date':
+				return resolveDate(file, frontmatter, settings).format(argument || DEFAULT_DATE_FORMAT);
+			case 'counter': {
+				const width = parseInt(argument ?? '', 10);
+				return isNaN(width) ? String(counter) : String(counter).padStart(width, '0');
+			}
+			default:
+				return formatTokenValue(frontmatter[token.startsWith('note.') ? token.substring(5) : token]);
+		}
+	});
+}
+
+/**
+ * Plan the renames for a selection, flagging empty names and collisions
+ * within the batch and with existing files or folders in the vault
+ */
+export function planBulkRename(
+	app: App,
+	files: string[],
+	options: RenamePatternOptions,
+	config: BasesCMSSettings,
+	settings?: CMSSettings
+): RenamePlanItem[] {
+	const items: RenamePlanItem[] = [];
+	const renamedFolders = new Set<TFolder>();
+	let counter = options.counterStart;
+
+	for (const filePath of files) {
+		const file = app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) continue;
+
+		const parent = file.parent;
+		const useFolder = options.renameFolders
+			&& parent !== null
+			&& !parent.isRoot()
+			&& isFolderBasedContent(file, config);
+		// Several selected files can share a content folder; rename it once
+		if (useFolder && renamedFolders.has(parent)) continue;
+		if (useFolder) renamedFolders.add(parent);
+
+		const target: TFile | TFolder = useFolder ? parent : file;
+		let baseName = sanitizeFilename(
+			expandRenamePattern(app, file, options.pattern, counter, settings, useFolder ? parent.name : file.basename)
+		);
+		counter++;
+		// In filename prefix mode the leading underscore is the draft status; dropping it would publish the file
+		if (!useFolder && settings?.draftStatusUseFilenamePrefix && file.basename.startsWith('_') && baseName.length > 0 && !baseName.startsWith('_')) {
+			baseName = `_${baseName}`;
+		}
+
+		const newName = target instanceof TFile ? `${baseName}.${target.extension}` : baseName;
+		const container = target.parent;
+		const newPath = normalizePath(container && !container.isRoot() ? `${container.path}/${newName}` : newName);
+
+		items.push({
+			file,
+			target,
+			oldName: target.name,
+			newName,
+			newPath,
+			error: baseName.length === 0 ? 'Pattern produces an empty name' : undefined,
+		});
+	}
+
+	// Collisions within the batch
+	const counts = new Map<string, number>();
+	for (const item of items) {
+		const key = item.newPath.toLowerCase();
+		counts.set(key, (counts.get(key) ?? 0) + 1);
+	}
+
+	for (const item of items) {
+		if (item.error) continue;
+		if ((counts.get(item.newPath.toLowerCase()) ?? 0) > 1) {
+			item.error = 'Another selected file gets the same name';
+		}
+	}
+
+	// Collisions with the vault (a case-only change of the same file is fine)
+	// A path that another rename in the batch moves away from is free; repeat until no new errors,
+	// since a rename that fails keeps its path taken
+	let changed = true;
+	while (changed) {
+		changed = false;
+		const vacated = new Set(items.filter(isEffectiveRename).map(item => item.target.path.toLowerCase()));
+		for (const item of items) {
+			if (!isEffectiveRename(item)) continue;
+			const existing = app.vault.getAbstractFileByPath(item.newPath);
+			if (existing && existing !== item.target && !vacated.has(existing.path.toLowerCase())) {
+				item.error = `${item.newPath} already exists`;
+				changed = true;
+			}
+		}
+	}
+
+	// Flag renames that cannot be ordered
+	orderRenames(items);
+	return items;
+}
+
+/**
+ * The effective renames of a plan, ordered so a path is vacated before another file is renamed to it
+ * Renames that only work by swapping names (a cycle) cannot run and are flagged
+ */
+export function orderRenames(items: RenamePlanItem[]): RenamePlanItem[] {
+	const ordered: RenamePlanItem[] = [];
+	let pending = items.filter(isEffectiveRename);
+
+	while (pending.length > 0) {
+		const sources = new Set(pending.map(item => item.target.path.toLowerCase()));
+		const ready = pending.filter(item => !sources.has(item.newPath.toLowerCase()) || item.newPath.toLowerCase() === item.target.path.toLowerCase());
+		if (ready.length === 0) {
+			for (const item of pending) {
+				item.error = 'Renames swap names with other selected files';
+			}
+			break;
+		}
+		ordered.push(...ready);
+		pending = pending.filter(item => !ready.includes(item));
+	}
+
+	return ordered;
+}
+
+/**
+ * Whether a planned rename would actually change anything
+ */
+export function isEffectiveRename(item: RenamePlanItem): boolean {
+	return !item.error && item.newPath !== item.target.path;
+}
@@ -0,0 +1,190 @@
+/**
+ * Scheduled publishing
+ * CMS views register drafts that have a publish date; the scheduler checks them on startup
+ * and at an interval, and publishes the ones that are due using the same logic as setDraft
+ */
+
+import { TFile } from 'obsidian';
+import type BasesCMSPlugin from '../main';
+import type { CMSSettings } from '../shared/data-transform';
+import type { ScheduledPublish } from '../types';
+import { BulkOperations, cleanPropertyName, isDraftFile, planDraftChange } from './bulk-operations';
+import { parseDate } from './property-conversion';
+
+/** Maximum number of automatic publishes kept in the log */
+export const MAX_PUBLISH_LOG_ENTRIES = 100;
+
+/**
+ * Read a file's publish date, or null when it has none
+ */
+export function getPublishDate(plugin: BasesCMSPlugin, file: TFile, publishAtProperty: string): { raw: string; date: Date } | null {
+	const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+	const value = frontmatter?.[cleanPropertyName(publishAtProperty.trim())];
+	if (typeof value !== 'string' || value.trim() === '') return null;
+
+	const parsed = parseDate(value.trim(), []);
+	return parsed ? { raw: value, date: parsed.toDate() } : null;
+}
+
+export class ScheduledPublisher {
+	private intervalId: number | null = null;
+	private checking = false;
+
+	constructor(private plugin: BasesCMSPlugin) {}
+
+	/**
+	 * Check once the workspace is ready, then at the configured interval
+	 * Also keeps scheduled paths up to date when files are renamed or deleted
+	 */
+	start(): void {
+		this.plugin.app.workspace.onLayoutReady(() => {
+			void this.check();
+		});
+		this.restartInterval();
+
+		this.plugin.registerEvent(this.plugin.app.vault.on('rename', (file, oldPath) => {
+			const schedule = this.plugin.settings.scheduledPublishes[oldPath];
+			if (!schedule) return;
+			const scheduledPublishes = { ...this.plugin.settings.scheduledPublishes };
+			delete scheduledPublishes[oldPath];
+			scheduledPublishes[file.path] = schedule;
+			void this.save(scheduledPublishes);
+		}));
+
+		this.plugin.registerEvent(this.plugin.app.vault.on('delete', (file) => {
+			if (!this.plugin.settings.scheduledPublishes[file.path]) return;
+			const scheduledPublishes = { ...this.plugin.settings.scheduledPublishes };
+			delete scheduledPublishes[file.path];
+			void this.save(scheduledPublishes);
+		}));
+	}
+
+	/**
+	 * Apply a changed check interval
+	 */
+	restartInterval(): void {
+		if (this.intervalId !== null) {
+			window.clearInterval(this.intervalId);
+		}
+		const minutes = Math.max(1, this.plugin.settings.scheduledPublishInterval || 1);
+		this.intervalId = window.setInterval(() => {
+			void this.check();
+		}, minutes * 60 * 1000);
+		this.plugin.registerInterval(this.intervalId);
+	}
+
+	/**
+	 * Register the drafts with a publish date shown by a view, and forget files that no longer qualify
+	 */
+	syncFromView(files: TFile[], settings: CMSSettings): void {
+		if (!settings.publishAtProperty) return;
+
+		const schedule: ScheduledPublish = {
+			publishAtProperty: settings.publishAtProperty,
+			draftStatusProperty: settings.draftStatusProperty,
+			draftStatusReverse: settings.draftStatusReverse,
+			draftStatusUseFilenamePrefix: settings.draftStatusUseFilenamePrefix,
+		};
+		const current = this.plugin.settings.scheduledPublishes;
+		const scheduledPublishes = { ...current };
+
+		for (const file of files) {
+			const scheduled = isDraftFile(this.plugin.app, file, schedule)
+				&& getPublishDate(this.plugin, file, schedule.publishAtProperty) !== null;
+			if (scheduled) {
+				scheduledPublishes[file.path] = schedule;
+			} else {
+				delete scheduledPublishes[file.path];
+			}
+		}
+
+		if (JSON.stringify(scheduledPublishes) !== JSON.stringify(current)) {
+			void this.save(scheduledPublishes);
+		}
+	}
+
+	/**
+	 * Publish every scheduled draft whose publish date has passed
+	 */
+	async check(): Promise<void> {
+		if (this.checking) return;
+		this.checking = true;
+
+		try {
+			const now = Date.now();
+			const scheduledPublishes = { ...this.plugin.settings.scheduledPublishes };
+			// Paths to unschedule; removed from the schedules as they are when saving, since other
+			// handlers can change them while files are being published
+			const unscheduled = new Set<string>();
+			// Due files grouped by the draft settings they were scheduled with
+			const due = new Map<string, { schedule: ScheduledPublish; files: TFile[] }>();
+
+			for (const [path, schedule] of Object.entries(scheduledPublishes)) {
+				const file = this.plugin.app.vault.getAbstractFileByPath(path);
+				const publishDate = file instanceof TFile ? getPublishDate(this.plugin, file, schedule.publishAtProperty) : null;
+				if (!(file instanceof TFile) || !publishDate || !isDraftFile(this.plugin.app, file, schedule)) {
+					// Deleted, unscheduled or already published by hand
+					unscheduled.add(path);
+					continue;
+				}
+				if (publishDate.date.getTime() > now) continue;
+
+				const key = JSON.stringify(schedule);
+				const group = due.get(key) ?? { schedule, files: [] };
+				group.files.push(file);
+				due.set(key, group);
+			}
+
+			if (due.size === 0) {
+				await this.unschedule(unscheduled);
+				return;
+			}
+
+			const bulkOps = new BulkOperations(this.plugin.app, this.plugin.bulkJournal, this.plugin.bulkJobRunner);
+			const publishLog = [...this.plugin.settings.publishLog];
+
+			for (const { schedule, files } of due.values()) {
+				// Work out log entries up front; publishing may rename the files
+				const entries = new Map(files.map(file => [file.path, {
+					path: planDraftChange(file, false, schedule).newPath ?? file.path,
+					scheduledFor: getPublishDate(this.plugin, file, schedule.publishAtProperty)?.raw ?? '',
+				}]));
+
+				const published = await bulkOps.setDraft(Array.from(entries.keys()), false, schedule);
+				const publishedAt = Date.now();
+
+				// Failed files stay scheduled and are retried on the next check
+				for (const path of published ?? []) {
+					const entry = entries.get(path);
+					if (!entry) continue;
+					// Publishing can rename the file, which moves its schedule to the new path
+					unscheduled.add(path);
+					unscheduled.add(entry.path);
+					publishLog.unshift({ ...entry, publishedAt });
+				}
+			}
+
+			this.plugin.settings.publishLog = publishLog.slice(0, MAX_PUBLISH_LOG_ENTRIES);
+			await this.unschedule(unscheduled);
+			this.plugin.refreshAllViews();
+		} finally {
+			this.checking = false;
+		}
+	}
+
+	/**
+	 * Remove paths from the current schedules and save
+	 */
+	private async unschedule(paths: Set<string>): Promise<void> {
+		const scheduledPublishes = { ...this.plugin.settings.scheduledPublishes };
+		for (const path of paths) {
+			delete scheduledPublishes[path];
+		}
+		await this.save(scheduledPublishes);
+	}
+
+	private async save(scheduledPublishes: Record<string, ScheduledPublish>): Promise<void> {
+		this.plugin.settings.scheduledPublishes = scheduledPublishes;
+		await this.plugin.saveData(this.plugin.settings);
+	}
+}
@@ -0,0 +1,179 @@
+/**
+ * Search and replace utilities
+ * Shared matching logic for find-and-replace bulk operations
+ */
+
+import { findCodeBlockRanges } from './preview';
+
+export interface SearchOptions {
+	search: string;
+	replacement: string;
+	/** Treat search as a regular expression; replacement may use $1, $2 ... capture groups */
+	useRegex: boolean;
+	caseSensitive: boolean;
+}
+
+/**
+ * Build a global RegExp from search options
+ * Throws a SyntaxError if the search is an invalid regular expression
+ */
+export function buildSearchPattern(options: SearchOptions): RegExp {
+	const flags = options.caseSensitive ? 'g' : 'gi';
+	const source = options.useRegex
+		? options.search
+		: options.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	return new RegExp(source, flags);
+}
+
+/**
+ * Replace all matches in a string
+ * In literal mode the replacement is inserted as-is, without $ substitutions
+ */
+export function replaceInString(value: string, pattern: RegExp, options: SearchOptions): string {
+	pattern.lastIndex = 0;
+	if (options.useRegex) {
+		return value.replace(pattern, options.replacement);
+	}
+	return value.replace(pattern, () => options.replacement);
+}
+
+/**
+ * Count matches in a string
+ */
+export function countMatches(value: string, pattern: RegExp): number {
+	pattern.lastIndex = 0;
+	const matches = value.match(pattern);
+	return matches ? matches.length : 0;
+}
+
+/**
+ * Options for replacing text in note bodies
+ */
+export interface BodySearchOptions extends SearchOptions {
+	/** Leave fenced code blocks untouched */
+	skipCodeBlocks: boolean;
+}
+
+/**
+ * Match in a note body with the text around it on the same line
+ */
+export interface BodyMatch {
+	/** Line number, starting at 1 */
+	line: number;
+	before: string;
+	match: string;
+	replacement: string;
+	after: string;
+}
+
+/** Characters of context shown on each side of a match */
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Expand $ patterns in a regex replacement for one match, the way String.prototype.replace does:
+ * $$, $&, $`, $', $1 to $99 and $<name>
+ */
+function expandReplacement(
+	template: string,
+	match: string,
+	captures: (string | undefined)[],
+	offset: number,
+	input: string,
+	groups?: Record<string, string | undefined>
+): string {
+	return template.replace(/\$([$&`']|\d{1,2}|<([^>]*)>)/g, (token, symbol: string, name?: string) => {
+		if (symbol === '$') return '$';
+		if (symbol === '&') return match;
+		if (symbol === '`') return input.substring(0, offset);
+		if (symbol === "'") return input.substring(offset + match.length);
+		if (name !== undefined) return groups ? groups[name] ?? '' : token;
+
+		const index = parseInt(symbol, 10);
+		if (index >= 1 && index <= captures.length) return captures[index - 1] ?? '';
+		// $12 with fewer than 12 groups is $1 followed by "2"
+		const first = parseInt(symbol[0], 10);
+		if (symbol.length === 2 && first >= 1 && first <= captures.length) {
+			return (captures[first - 1] ?? '') + symbol[1];
+		}
+		return token;
+	});
+}
+
+/**
+ * Replace matches in a note body in a single pass, so anchors and lookarounds see the whole body
+ * With skipCodeBlocks, matches that overlap a fenced code block are left as they are
+ * onMatch receives each replaced match with its position and the text it is replaced with
+ */
+function replaceBodyMatches(
+	body: string,
+	pattern: RegExp,
+	options: BodySearchOptions,
+	onMatch?: (start: number, match: string, replacement: string) => void
+): { body: string; count: number } {
+	const blocks = options.skipCodeBlocks ? findCodeBlockRanges(body) : [];
+	let count = 0;
+	pattern.lastIndex = 0;
+
+	const result = body.replace(pattern, (...args: unknown[]) => {
+		const match = args[0] as string;
+		// Arguments are the match, its capture groups, the offset, the input and (with named groups) the groups
+		const offsetIndex = args.findIndex((arg, index) => index > 0 && typeof arg === 'number');
+		const start = args[offsetIndex] as number;
+		const end = start + match.length;
+		if (blocks.some(block => start < block.end && Math.max(end, start + 1) > block.start)) {
+			return match;
+		}
+
+		const groups = args[offsetIndex + 2] as Record<string, string | undefined> | undefined;
+		const replacement = options.useRegex
+			? expandReplacement(options.replacement, match, args.slice(1, offsetIndex) as (string | undefined)[], start, body, groups)
+			: options.replacement;
+		count++;
+		onMatch?.(start, match, replacement);
+		return replacement;
+	});
+
+	return { body: result, count };
+}
+
+/**
+ * Replace all matches in a note body
+ * Returns the new body and the number of replacements
+ */
+export function replaceInBody(body: string, pattern: RegExp, options: BodySearchOptions): { body: string; count: number } {
+	return replaceBodyMatches(body, pattern, options);
+}
+
+/**
+ * Find matches in a note body, with context snippets for the first few
+ * Snippets come from the same pass as replaceInBody, so they show exactly what is written
+ */
+export function findBodyMatches(
+	body: string,
+	pattern: RegExp,
+	options: BodySearchOptions,
+	maxSnippets: number
+): { count: number; snippets: BodyMatch[] } {
+	const snippets: BodyMatch[] = [];
+
+	const { count } = replaceBodyMatches(body, pattern, options, (start, match, replacement) => {
+		if (snippets.length >= maxSnippets) return;
+
+		const end = start + match.length;
+		const lineStart = body.lastIndexOf('\n', start - 1) + 1;
+		const lineEndIndex = body.indexOf('\n', end);
+		const lineEnd = lineEndIndex === -1 ? body.length : lineEndIndex;
+		const beforeStart = Math.max(lineStart, start - SNIPPET_CONTEXT);
+		const afterEnd = Math.min(lineEnd, end + SNIPPET_CONTEXT);
+
+		snippets.push({
+			line: body.substring(0, start).split('\n').length,
+			before: (beforeStart > lineStart ? '…' : '') + body.substring(beforeStart, start),
+			match,
+			replacement,
+			after: body.substring(end, afterEnd) + (afterEnd < lineEnd ? '…' : ''),
+		});
+	});
+
+	return { count, snippets };
+}
@@ -0,0 +1,59 @@
+/**
+ * Selection snapshot
+ * Remembers each selected file's modification time from when it was selected,
+ * so bulk operations can detect files that were edited elsewhere in the meantime
+ */
+
+import { App, TFile } from 'obsidian';
+
+export class SelectionSnapshot {
+	private mtimes = new Map<string, number>();
+
+	/**
+	 * Record the modification time a file had when it was selected
+	 */
+	record(path: string, mtime: number): void {
+		this.mtimes.set(path, mtime);
+	}
+
+	forget(path: string): void {
+		this.mtimes.delete(path);
+	}
+
+	clear(): void {
+		this.mtimes.clear();
+	}
+
+	/**
+	 * Files modified since they were selected
+	 * Paths selected without a recorded time are never reported
+	 */
+	findChanged(app: App, paths: string[]): TFile[] {
+		const changed: TFile[] = [];
+		for (const path of paths) {
+			const selectedAt = this.mtimes.get(path);
+			const file = app.vault.getAbstractFileByPath(path);
+			if (selectedAt === undefined || !(file instanceof TFile)) continue;
+			if (file.stat.mtime > selectedAt) {
+				changed.push(file);
+			}
+		}
+		return changed;
+	}
+
+	/**
+	 * Accept the current state of files this plugin just wrote, so they are not reported as changed
+	 * Files that were renamed are tracked under their new path
+	 */
+	refresh(app: App, paths: { path: string; newPath?: string }[]): void {
+		for (const { path, newPath } of paths) {
+			if (!this.mtimes.has(path)) continue;
+			const target = newPath ?? path;
+			const file = app.vault.getAbstractFileByPath(target);
+			this.mtimes.delete(path);
+			if (file instanceof TFile) {
+				this.mtimes.set(target, file.stat.mtime);
+			}
+		}
+	}
+}
@@ -6,6 +6,7 @@
 import { App, TFile, TFolder, Notice } from 'obsidian';
 import { BasesCMSSettings } from '../types';
 import { findUniqueAttachments } from './attachment-detection';
+import { BulkJobRunner } from './bulk-job-runner';
 
 export interface DeletionPreview {
 	filesToDelete: TFile[];
@@ -92,52 +93,37 @@ export async function prepareDeletionPreview(
 
 /**
  * Execute smart deletion
+ * Runs as a bulk job so it shows progress, can be cancelled and failed items can be retried
  */
 export async function executeSmartDeletion(
 	app: App,
-	preview: DeletionPreview
+	preview: DeletionPreview,
+	runner: BulkJobRunner = new BulkJobRunner(app)
 ): Promise<void> {
-	let deletedCount = 0;
-	let errorCount = 0;
-	
-	// Delete files
-	for (const file of preview.filesToDelete) {
-		try {
-			await app.fileManager.trashFile(file);
-			deletedCount++;
-		} catch (error) {
-			console.error(`Error deleting file ${file.path}:`, error);
-			errorCount++;
-		}
-	}
-	
-	// Delete attachments
-	for (const attachment of preview.attachmentsToDelete) {
-		try {
-			await app.fileManager.trashFile(attachment);
-			deletedCount++;
-		} catch (error) {
-			console.error(`Error deleting attachment ${attachment.path}:`, error);
-			errorCount++;
-		}
-	}
-	
-	// Delete folders (recursive)
-	for (const folder of preview.foldersToDelete) {
-		try {
-			await app.fileManager.trashFile(folder);
-			deletedCount++;
-		} catch (error) {
-			console.error(`Error deleting folder ${folder.path}:`, error);
-			errorCount++;
-		}
-	}
-	
-	if (errorCount > 0) {
-		new Notice(`Deleted ${deletedCount} items, ${errorCount} errors occurred`);
+	// Files first, then attachments, then folders (recursive)
+	const paths = [
+		...preview.filesToDelete.map(file => file.path),
+		...preview.attachmentsToDelete.map(attachment => attachment.path),
+		...preview.foldersToDelete.map(folder => folder.path),
+	];
+
+	const result = await runner.run({
+		label: 'Delete',
+		paths,
+		process: async (path) => {
+			const item = app.vault.getAbstractFileByPath(path);
+			if (!item) {
+				throw new Error('File not found');
+			}
+			await app.fileManager.trashFile(item);
+		},
+	});
+	if (!result) return;
+
+	const deletedCount = result.succeeded.length;
+	if (result.failed.length > 0) {
+		new Notice(`Deleted ${deletedCount} items, ${result.failed.length} errors occurred`);
 	} else {
 		new Notice(`Successfully deleted ${deletedCount} item${deletedCount !== 1 ? 's' : ''}`);
 	}
 }
-
-
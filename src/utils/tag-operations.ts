@@ -0,0 +1,229 @@
+/**
+ * Tag utilities
+ * Reads and writes tags in whichever property a view treats as tags, in any of the formats
+ * notes use (YAML list, comma- or space-separated string, with or without "#"),
+ * and rewrites tags across files, inline #tags in the body included. Nested tags (topic/sub)
+ * follow their parent when it is renamed, merged or deleted
+ */
+
+import { App, TFile, type TagCache } from 'obsidian';
+import { replaceInlineTags } from './note-body';
+
+/**
+ * Rename, merge or delete tags
+ * Every tag in from (and its nested tags) becomes to, or is removed when to is null
+ */
+export interface TagRewrite {
+	from: string[];
+	to: string | null;
+}
+
+/**
+ * How a note writes its tags, so changes can be written back the same way
+ */
+export interface TagValueStyle {
+	/** YAML list rather than a single string */
+	list: boolean;
+	/** Tags written with a leading "#" */
+	hash: boolean;
+	/** Separator between tags in a string value */
+	separator: string;
+}
+
+/** Style used when a note has no tags yet */
+const DEFAULT_TAG_STYLE: TagValueStyle = { list: true, hash: false, separator: ', ' };
+
+/**
+ * Tag name without a leading "#"
+ */
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, '');
+}
+
+/**
+ * Frontmatter key of the view's tags property
+ * File properties such as file.tags map to the tags key
+ */
+export function getTagsKey(tagsProperty?: string): string {
+	const property = tagsProperty?.trim() ?? '';
+	if (!property || property.startsWith('file.')) return 'tags';
+	return property.startsWith('note.') ? property.substring(5) : property;
+}
+
+/**
+ * Read a tags value in any supported format
+ * List items that are not strings (numbers, nulls, nested values) are returned in other,
+ * so they can be written back unchanged
+ */
+export function parseTagValue(value: unknown): { tags: string[]; style: TagValueStyle; other: unknown[] } {
+	if (Array.isArray(value)) {
+		const items = value.filter((item): item is string => typeof item === 'string');
+		return {
+			tags: items.map(normalizeTag).filter(tag => tag.length > 0),
+			style: { ...DEFAULT_TAG_STYLE, hash: items.some(item => item.trim().startsWith('#')) },
+			other: value.filter(item => typeof item !== 'string'),
+		};
+	}
+
+	if (typeof value === 'string' && value.trim() !== '') {
+		const commaSeparated = value.includes(',');
+		const items = commaSeparated ? value.split(',') : value.trim().split(/\s+/);
+		return {
+			tags: items.map(normalizeTag).filter(tag => tag.length > 0),
+			style: {
+				list: false,
+				hash: items.some(item => item.trim().startsWith('#')),
+				separator: commaSeparated ? (/,\s/.test(value) ? ', ' : ',') : ' ',
+			},
+			other: [],
+		};
+	}
+
+	return { tags: [], style: DEFAULT_TAG_STYLE, other: [] };
+}
+
+/**
+ * Write tags back in the given style, followed by the list items parseTagValue could not read
+ * An empty list removes the property
+ */
+export function formatTagValue(tags: string[], style: TagValueStyle, other: unknown[] = []): unknown {
+	if (tags.length === 0 && other.length === 0) return undefined;
+	const names = tags.map(tag => style.hash ? `#${tag}` : tag);
+	return style.list ? [...names, ...other] : names.join(style.separator);
+}
+
+/**
+ * Read the tags of a file from the given frontmatter key
+ */
+export function getFrontmatterTags(app: App, file: TFile, key = 'tags'): string[] {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+	return parseTagValue(frontmatter?.[key]).tags;
+}
+
+/**
+ * Inline #tags in a file's body, without the "#"
+ */
+export function getInlineTags(app: App, file: TFile): string[] {
+	return (app.metadataCache.getFileCache(file)?.tags ?? []).map(cache => normalizeTag(cache.tag));
+}
+
+/**
+ * Count how many files use each tag, in the tags property or inline in the body, keyed by tag name
+ * Tags that differ only in case are counted together under the first spelling found
+ */
+export function collectTagCounts(app: App, files: string[], key = 'tags'): Map<string, number> {
+	const counts = new Map<string, number>();
+	const names = new Map<string, string>();
+	for (const filePath of files) {
+		const file = app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) continue;
+		const fileTags = new Set<string>();
+		for (const tag of [...getFrontmatterTags(app, file, key), ...getInlineTags(app, file)]) {
+			const lower = tag.toLowerCase();
+			if (!names.has(lower)) names.set(lower, tag);
+			fileTags.add(names.get(lower) ?? tag);
+		}
+		for (const tag of fileTags) {
+			counts.set(tag, (counts.get(tag) ?? 0) + 1);
+		}
+	}
+	return counts;
+}
+
+/**
+ * Add tags to a frontmatter object in place, skipping tags it already has
+ */
+export function addFrontmatterTags(frontmatter: Record<string, unknown>, key: string, tags: string[]): void {
+	const { tags: current, style, other } = parseTagValue(frontmatter[key]);
+	const existing = new Set(current.map(tag => tag.toLowerCase()));
+	const added = tags
+		.map(normalizeTag)
+		.filter(tag => tag.length > 0 && !existing.has(tag.toLowerCase()));
+	if (added.length === 0) return;
+	frontmatter[key] = formatTagValue([...current, ...added], style, other);
+}
+
+/**
+ * Remove tags from a frontmatter object in place
+ * Tags are compared case-insensitively, like Obsidian does
+ */
+export function removeFrontmatterTags(frontmatter: Record<string, unknown>, key: string, tags: string[]): void {
+	const { tags: current, style, other } = parseTagValue(frontmatter[key]);
+	const removed = new Set(tags.map(tag => normalizeTag(tag).toLowerCase()));
+	const updated = current.filter(tag => !removed.has(tag.toLowerCase()));
+	if (updated.length === current.length) return;
+	frontmatter[key] = formatTagValue(updated, style, other);
+}
+
+/**
+ * Find the rewrite source a tag falls under (the tag itself or one of its parents)
+ */
+function matchSource(tag: string, from: string[]): string | null {
+	const lower = tag.toLowerCase();
+	for (const source of from) {
+		const sourceLower = normalizeTag(source).toLowerCase();
+		if (lower === sourceLower || lower.startsWith(`${sourceLower}/`)) {
+			return normalizeTag(source);
+		}
+	}
+	return null;
+}
+
+/**
+ * Whether a tag is affected by a rewrite
+ */
+export function isRewrittenTag(tag: string, rewrite: TagRewrite): boolean {
+	return matchSource(normalizeTag(tag), rewrite.from) !== null;
+}
+
+/**
+ * A tag after a rewrite: the tag itself if unaffected, or null if it is deleted
+ */
+export function rewriteTag(tag: string, rewrite: TagRewrite): string | null {
+	const source = matchSource(tag, rewrite.from);
+	if (source === null) return tag;
+	if (rewrite.to === null) return null;
+	// Keep the nested part: topic/sub renamed to subject becomes subject/sub
+	return `${normalizeTag(rewrite.to)}${tag.substring(source.length)}`;
+}
+
+/**
+ * Apply a rewrite to a list of tag names, keeping order and dropping duplicates
+ */
+export function rewriteTagList(tags: string[], rewrite: TagRewrite): string[] {
+	const result: string[] = [];
+	const seen = new Set<string>();
+
+	for (const tag of tags) {
+		const rewritten = rewriteTag(tag, rewrite);
+		if (rewritten === null) continue;
+		const lower = rewritten.toLowerCase();
+		if (seen.has(lower)) continue;
+		seen.add(lower);
+		result.push(rewritten);
+	}
+
+	return result;
+}
+
+/**
+ * Apply a rewrite to the tags property of a frontmatter object in place
+ */
+export function applyTagRewrite(frontmatter: Record<string, unknown>, rewrite: TagRewrite, key = 'tags'): void {
+	const { tags, style, other } = parseTagValue(frontmatter[key]);
+	if (!tags.some(tag => isRewrittenTag(tag, rewrite))) return;
+	frontmatter[key] = formatTagValue(rewriteTagList(tags, rewrite), style, other);
+}
+
+/**
+ * Apply a rewrite to the inline #tags of note content
+ * Deleted tags are removed; renamed ones keep their "#"
+ */
+export function rewriteInlineTags(content: string, tagCaches: TagCache[], rewrite: TagRewrite): { content: string; changed: number } {
+	return replaceInlineTags(content, tagCaches, (tag) => {
+		const name = normalizeTag(tag);
+		if (!isRewrittenTag(name, rewrite)) return undefined;
+		const rewritten = rewriteTag(name, rewrite);
+		return rewritten === null ? null : `#${rewritten}`;
+	});
+}
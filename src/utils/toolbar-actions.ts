@@ -3,16 +3,33 @@
  * Handles all bulk operation actions from the toolbar
  */
 
-import { App } from 'obsidian';
+import { App, Notice } from 'obsidian';
 import type BasesCMSPlugin from '../main';
-import { BulkOperations } from './bulk-operations';
+import { BulkOperations, cleanPropertyName } from './bulk-operations';
 import { ManageTagsModal } from '../components/manage-tags-modal';
 import { SetPropertyModal } from '../components/set-property-modal';
 import { RemovePropertyModal } from '../components/remove-property-modal';
+import { ReplaceValuesModal } from '../components/replace-values-modal';
+import { ReplaceBodyModal } from '../components/replace-body-modal';
+import { ApplyTemplateModal } from '../components/apply-template-modal';
+import { EditDatesModal } from '../components/edit-dates-modal';
+import { BulkEditGridModal } from '../components/bulk-edit-grid-modal';
+import { ConvertPropertyModal } from '../components/convert-property-modal';
+import { RenamePropertyModal } from '../components/rename-property-modal';
+import { BulkRenameModal } from '../components/bulk-rename-modal';
+import { ExportModal } from '../components/export-modal';
+import { CopyAsModal } from '../components/copy-as-modal';
+import { FolderPickerModal } from '../components/folder-picker-modal';
 import { DeletionPreviewModal } from '../components/deletion-preview';
-import { BulkOperationConfirmModal } from '../components/bulk-operation-confirm';
+import { BulkOperationConfirmModal, type ConfirmOperation } from '../components/bulk-operation-confirm';
 import { prepareDeletionPreview, executeSmartDeletion } from './smart-deletion';
+import { isArchiveConfigured } from './archive-operations';
+import { canExportToFolder } from './export-operations';
+import { getNormalizeOptions } from './frontmatter-normalize';
+import { getViewProperties, type CopyEntry } from './copy-formats';
+import type { SelectionSnapshot } from './selection-snapshot';
 import type { CMSSettings } from '../shared/data-transform';
+import type { BulkMacro } from '../types';
 
 export class ToolbarActions {
 	private bulkOps: BulkOperations;
@@ -23,62 +40,94 @@ export class ToolbarActions {
 		private getSelectedFiles: () => string[],
 		private clearSelection: () => void,
 		private refreshView: () => void,
-		private showToolbar: () => void
+		private showToolbar: () => void,
+		private getBaseFiles?: () => string[],
+		private getCopyEntries?: (properties: string[]) => CopyEntry[],
+		private selectionSnapshot?: SelectionSnapshot,
+		private getSelectionInViewOrder?: () => string[]
 	) {
-		this.bulkOps = new BulkOperations(app);
+		this.bulkOps = new BulkOperations(app, plugin.bulkJournal, plugin.bulkJobRunner, selectionSnapshot);
 	}
 
-	async handleSetDraft(settings?: CMSSettings): Promise<void> {
+	/**
+	 * Selected files in the view's sort order
+	 * Selected files the view no longer shows follow at the end
+	 */
+	private getSelectedFilesInViewOrder(): string[] {
 		const files = this.getSelectedFiles();
-		if (files.length === 0) return;
+		const ordered = (this.getSelectionInViewOrder?.() ?? []).filter(path => files.includes(path));
+		return Array.from(new Set([...ordered, ...files]));
+	}
 
+	/**
+	 * Run a bulk operation, showing a change preview for confirmation first if enabled
+	 */
+	confirmOperation: ConfirmOperation = async (operationName, buildPreview, run) => {
 		if (this.plugin.settings.confirmBulkOperations) {
+			const preview = await buildPreview();
 			const modal = new BulkOperationConfirmModal(
 				this.app,
-				files,
-				'draft',
+				operationName,
+				preview,
 				() => {
 					void (async () => {
-						await this.bulkOps.setDraft(files, true, settings);
+						await run();
 						this.refreshView();
 					})();
 				}
 			);
 			modal.open();
 		} else {
-			await this.bulkOps.setDraft(files, true, settings);
+			await run();
 			this.refreshView();
 		}
+	};
+
+	async handleSetDraft(settings?: CMSSettings): Promise<void> {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		await this.confirmOperation(
+			'mark as draft',
+			() => this.bulkOps.previewSetDraft(files, true, settings),
+			async () => {
+				await this.bulkOps.setDraft(files, true, settings);
+			}
+		);
 	}
 
 	async handlePublish(settings?: CMSSettings): Promise<void> {
 		const files = this.getSelectedFiles();
 		if (files.length === 0) return;
 
-		if (this.plugin.settings.confirmBulkOperations) {
-			const modal = new BulkOperationConfirmModal(
-				this.app,
-				files,
-				'publish',
-				() => {
-					void (async () => {
-						await this.bulkOps.setDraft(files, false, settings);
-						this.refreshView();
-					})();
-				}
-			);
-			modal.open();
-		} else {
-			await this.bulkOps.setDraft(files, false, settings);
+		await this.confirmOperation(
+			'mark as published',
+			() => this.bulkOps.previewSetDraft(files, false, settings),
+			async () => {
+				await this.bulkOps.setDraft(files, false, settings);
+			}
+		);
+	}
+
+	handleManageTags(settings?: CMSSettings): void {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		const modal = new ManageTagsModal(this.app, files, this.bulkOps, this.getBaseFiles?.(), settings?.tagsProperty);
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+			// Refresh view - the refreshView callback will preserve selection
 			this.refreshView();
-		}
+		};
+		modal.open();
 	}
 
-	handleManageTags(): void {
+	handleSetProperty(settings?: CMSSettings): void {
 		const files = this.getSelectedFiles();
 		if (files.length === 0) return;
 
-		const modal = new ManageTagsModal(this.app, files);
+		const modal = new SetPropertyModal(this.app, files, this.bulkOps, this.confirmOperation, settings);
 		modal.onClose = () => {
 			// Keep toolbar visible - don't let it close
 			this.showToolbar();
@@ -88,11 +137,41 @@ export class ToolbarActions {
 		modal.open();
 	}
 
-	handleSetProperty(): void {
+	handleApplyTemplate(): void {
 		const files = this.getSelectedFiles();
 		if (files.length === 0) return;
 
-		const modal = new SetPropertyModal(this.app, files);
+		const modal = new ApplyTemplateModal(this.app, files, this.bulkOps, this.confirmOperation);
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+			// Refresh view - the refreshView callback will preserve selection
+			this.refreshView();
+		};
+		modal.open();
+	}
+
+	handleEditDates(settings?: CMSSettings): void {
+		const files = this.getSelectedFilesInViewOrder();
+		if (files.length === 0) return;
+
+		const dateProperty = settings?.dateProperty.split(',')[0].trim() ?? '';
+		const defaultProperty = dateProperty.startsWith('file.') ? '' : cleanPropertyName(dateProperty);
+		const modal = new EditDatesModal(this.app, files, defaultProperty, this.bulkOps, this.confirmOperation);
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+			// Refresh view - the refreshView callback will preserve selection
+			this.refreshView();
+		};
+		modal.open();
+	}
+
+	handleEditGrid(): void {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		const modal = new BulkEditGridModal(this.app, files, this.bulkOps);
 		modal.onClose = () => {
 			// Keep toolbar visible - don't let it close
 			this.showToolbar();
@@ -106,7 +185,35 @@ export class ToolbarActions {
 		const files = this.getSelectedFiles();
 		if (files.length === 0) return;
 
-		const modal = new RemovePropertyModal(this.app, files);
+		const modal = new RemovePropertyModal(this.app, files, this.bulkOps, this.confirmOperation);
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+			// Refresh view - the refreshView callback will preserve selection
+			this.refreshView();
+		};
+		modal.open();
+	}
+
+	handleRenameProperty(): void {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		const modal = new RenamePropertyModal(this.app, files, this.bulkOps, this.confirmOperation);
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+			// Refresh view - the refreshView callback will preserve selection
+			this.refreshView();
+		};
+		modal.open();
+	}
+
+	handleConvertProperty(): void {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		const modal = new ConvertPropertyModal(this.app, files, this.bulkOps, this.confirmOperation);
 		modal.onClose = () => {
 			// Keep toolbar visible - don't let it close
 			this.showToolbar();
@@ -116,6 +223,193 @@ export class ToolbarActions {
 		modal.open();
 	}
 
+	handleReplaceValues(): void {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		const modal = new ReplaceValuesModal(this.app, files, this.bulkOps, this.confirmOperation);
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+			// Refresh view - the refreshView callback will preserve selection
+			this.refreshView();
+		};
+		modal.open();
+	}
+
+	handleReplaceBody(): void {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		const modal = new ReplaceBodyModal(this.app, files, this.bulkOps);
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+			// Refresh view - the refreshView callback will preserve selection
+			this.refreshView();
+		};
+		modal.open();
+	}
+
+	async handleNormalize(settings?: CMSSettings): Promise<void> {
+		const files = this.getSelectedFiles();
+		if (files.length === 0 || !settings) return;
+
+		const options = getNormalizeOptions(this.app, settings);
+		await this.confirmOperation(
+			'normalize frontmatter in',
+			() => this.bulkOps.previewNormalizeFrontmatter(files, options),
+			async () => {
+				await this.bulkOps.normalizeFrontmatter(files, options);
+			}
+		);
+	}
+
+	handleMove(): void {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		const modal = new FolderPickerModal(this.app, (folder) => {
+			void this.confirmOperation(
+				'move',
+				() => this.bulkOps.previewMoveFiles(files, folder, this.plugin.settings),
+				async () => {
+					await this.bulkOps.moveFiles(files, folder, this.plugin.settings);
+					// Selected paths no longer exist after the move
+					this.clearSelection();
+				}
+			);
+		});
+		modal.open();
+	}
+
+	handleCopyAs(settings?: CMSSettings): void {
+		if (!this.getCopyEntries || this.getSelectedFiles().length === 0) return;
+
+		const modal = new CopyAsModal(this.app, settings ? getViewProperties(settings) : [], this.getCopyEntries);
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+		};
+		modal.open();
+	}
+
+	handleExport(): void {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		if (!canExportToFolder()) {
+			new Notice('Exporting to a folder is only available in the desktop app');
+			return;
+		}
+
+		const modal = new ExportModal(this.app, files, this.plugin.settings, async (options) => {
+			// Remember the options for the next export
+			this.plugin.settings.exportDestination = options.destination;
+			this.plugin.settings.exportRewriteLinks = options.rewriteLinks;
+			this.plugin.settings.exportStripProperties = options.stripProperties.join(', ');
+			await this.plugin.saveData(this.plugin.settings);
+			await this.bulkOps.exportFiles(files, options);
+		});
+		modal.onClose = () => {
+			// Keep toolbar visible - don't let it close
+			this.showToolbar();
+		};
+		modal.open();
+	}
+
+	handleRenameFiles(settings?: CMSSettings): void {
+		const files = this.getSelectedFilesInViewOrder();
+		if (files.length === 0) return;
+
+		const modal = new BulkRenameModal(
+			this.app,
+			files,
+			this.plugin.settings,
+			settings,
+			this.bulkOps,
+			this.confirmOperation,
+			// Selected paths no longer exist after the rename
+			() => this.clearSelection()
+		);
+		modal.onClose = () => {
+			this.showToolbar();
+			this.refreshView();
+		};
+		modal.open();
+	}
+
+	async handleDuplicate(settings?: CMSSettings): Promise<void> {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		await this.bulkOps.duplicateFiles(files, this.plugin.settings, settings);
+		this.refreshView();
+	}
+
+	async handleArchive(settings?: CMSSettings): Promise<void> {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		if (!settings || !isArchiveConfigured(settings)) {
+			new Notice('Set an archive folder or archive property in the view options first');
+			return;
+		}
+
+		await this.confirmOperation(
+			'archive',
+			() => this.bulkOps.previewArchiveFiles(files, this.plugin.settings, settings),
+			async () => {
+				await this.bulkOps.archiveFiles(files, this.plugin.settings, settings);
+				this.clearSelection();
+			}
+		);
+	}
+
+	async handleUnarchive(settings?: CMSSettings): Promise<void> {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		if (!settings || !isArchiveConfigured(settings)) {
+			new Notice('Set an archive folder or archive property in the view options first');
+			return;
+		}
+
+		await this.confirmOperation(
+			'unarchive',
+			() => this.bulkOps.previewUnarchiveFiles(files, this.plugin.settings, settings),
+			async () => {
+				await this.bulkOps.unarchiveFiles(files, this.plugin.settings, settings);
+				this.clearSelection();
+			}
+		);
+	}
+
+	async handleRunMacro(macro: BulkMacro, settings?: CMSSettings): Promise<void> {
+		const files = this.getSelectedFiles();
+		if (files.length === 0) return;
+
+		// Moves and filename prefix drafts change the selected paths
+		const changesPaths = macro.steps.some(step => step.type === 'move')
+			|| (!!settings?.draftStatusUseFilenamePrefix && macro.steps.some(step => step.type === 'set-draft'));
+
+		await this.confirmOperation(
+			`run ${macro.name} on`,
+			() => this.bulkOps.previewMacro(files, macro, this.plugin.settings, settings),
+			async () => {
+				await this.bulkOps.runMacro(files, macro, this.plugin.settings, settings);
+				if (changesPaths) {
+					this.clearSelection();
+				}
+			}
+		);
+	}
+
+	async handleUndo(): Promise<void> {
+		await this.plugin.bulkJournal.undo();
+		this.refreshView();
+	}
+
 	async handleDelete(): Promise<void> {
 		const files = this.getSelectedFiles();
 		if (files.length === 0) return;
@@ -133,7 +427,8 @@ export class ToolbarActions {
 				() => {
 					this.clearSelection();
 					this.refreshView();
-				}
+				},
+				this.plugin.bulkJobRunner
 			);
 			modal.open();
 		} else {
@@ -143,7 +438,7 @@ export class ToolbarActions {
 				files,
 				this.plugin.settings
 			);
-			await executeSmartDeletion(this.app, preview);
+			await executeSmartDeletion(this.app, preview, this.plugin.bulkJobRunner);
 			this.clearSelection();
 			this.refreshView();
 		}
@@ -0,0 +1,192 @@
+/**
+ * Value template utilities
+ * Evaluates {{expression}} templates against a file's own data for computed bulk set values,
+ * e.g. {{title | slugify}}, {{now:YYYY-MM-DD}}, {{snippet | truncate:155}} or /blog/{{file.basename}}
+ */
+
+import { App, TFile, moment } from 'obsidian';
+import type { CMSSettings } from '../shared/data-transform';
+import { loadFilePreview } from './preview';
+import { formatTokenValue, resolveDate, resolveTitle, slugify } from './rename-pattern';
+import { parseDate } from './property-conversion';
+
+/** Date format used when a date value has no format */
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+const EXPRESSION_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+/**
+ * Data of a single file that template expressions can refer to
+ */
+export interface TemplateContext {
+	file: TFile;
+	frontmatter: Record<string, unknown>;
+	title: string;
+	/** Generated preview text, only loaded when a template uses it */
+	snippet: string;
+	settings?: CMSSettings;
+}
+
+/**
+ * Whether a value contains template expressions
+ */
+export function hasTemplateExpressions(value: string): boolean {
+	return /\{\{[^{}]*\}\}/.test(value);
+}
+
+/**
+ * Split "name:argument" at the first colon
+ */
+function splitArgument(part: string): { name: string; argument?: string } {
+	const index = part.indexOf(':');
+	if (index === -1) return { name: part.trim() };
+	return { name: part.substring(0, index).trim(), argument: part.substring(index + 1).trim() };
+}
+
+/**
+ * Collect the data a template needs for one file
+ */
+export async function buildTemplateContext(
+	app: App,
+	file: TFile,
+	template: string,
+	settings?: CMSSettings
+): Promise<TemplateContext> {
+	const frontmatter = (app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+	const title = resolveTitle(file, frontmatter, settings);
+
+	let snippet = '';
+	if (/\{\{\s*snippet\b/.test(template) && file.extension === 'md') {
+		// Same snippet cards show: the description property, or the note content
+		const descriptionProp = settings?.descriptionProperty?.split(',')[0]?.trim() ?? '';
+		const descriptionKey = descriptionProp.startsWith('note.') ? descriptionProp.substring(5) : descriptionProp;
+		const description = descriptionKey && !descriptionKey.startsWith('file.') ? frontmatter[descriptionKey] : undefined;
+		snippet = await loadFilePreview(
+			file,
+			app,
+			description,
+			{
+				fallbackToContent: settings?.fallbackToContent ?? true,
+				omitFirstLine: false,
+				truncatePreviewProperty: settings?.truncatePreviewProperty,
+			},
+			file.basename,
+			title
+		);
+	}
+
+	return { file, frontmatter, title, snippet, settings };
+}
+
+/**
+ * Resolve the value an expression starts from
+ * Supported: title, snippet, now[:FORMAT], date[:FORMAT], file.name, file.basename, file.path,
+ * file.folder, file.ext, file.ctime[:FORMAT], file.mtime[:FORMAT], file.size and any frontmatter property
+ */
+function resolveSource(source: string, context: TemplateContext): string {
+	const { name, argument } = splitArgument(source);
+	const { file } = context;
+
+	switch (name) {
+		case 'title': return context.title;
+		case 'snippet': return context.snippet;
+		case 'now': return moment().format(argument || DEFAULT_DATE_FORMAT);
+		case 'date': return resolveDate(file, context.frontmatter, context.settings).format(argument || DEFAULT_DATE_FORMAT);
+		case 'file.name': return file.name;
+		case 'file.basename': return file.basename;
+		case 'file.path': return file.path;
+		case 'file.folder': return file.parent && !file.parent.isRoot() ? file.parent.path : '';
+		case 'file.ext': return file.extension;
+		case 'file.ctime': return moment(file.stat.ctime).format(argument || DEFAULT_DATE_FORMAT);
+		case 'file.mtime': return moment(file.stat.mtime).format(argument || DEFAULT_DATE_FORMAT);
+		case 'file.size': return String(file.stat.size);
+		default: {
+			// Any other name is a frontmatter property
+			const key = source.trim().startsWith('note.') ? source.trim().substring(5) : source.trim();
+			return formatTokenValue(context.frontmatter[key]);
+		}
+	}
+}
+
+/** Filters templates can use */
+const FILTERS = ['slugify', 'lower', 'upper', 'trim', 'truncate', 'default', 'date'];
+
+/**
+ * Check a template for unknown filters
+ * Returns an error message, or null when the template is valid
+ */
+export function validateTemplate(template: string): string | null {
+	for (const match of template.matchAll(EXPRESSION_PATTERN)) {
+		const [, ...filters] = (match[1] ?? '').split('|');
+		for (const filter of filters) {
+			const { name } = splitArgument(filter);
+			if (!FILTERS.includes(name)) {
+				return `Unknown filter "${name}"`;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Apply a filter to a value
+ * Supported: slugify, lower, upper, trim, truncate:N, default:TEXT, date:FORMAT
+ */
+function applyFilter(value: string, filter: string): string {
+	const { name, argument } = splitArgument(filter);
+
+	switch (name) {
+		case 'slugify': return slugify(value);
+		case 'lower': return value.toLowerCase();
+		case 'upper': return value.toUpperCase();
+		case 'trim': return value.trim();
+		case 'truncate': {
+			const length = parseInt(argument ?? '', 10);
+			if (isNaN(length) || value.length <= length) return value;
+			// Cut at the last word boundary that fits, leaving room for the ellipsis
+			const cut = value.substring(0, Math.max(0, length - 1));
+			const lastSpace = cut.lastIndexOf(' ');
+			return `${(lastSpace > length / 2 ? cut.substring(0, lastSpace) : cut).trimEnd()}…`;
+		}
+		case 'default': return value.trim() === '' ? (argument ?? '') : value;
+		case 'date': {
+			const parsed = parseDate(value.trim(), []);
+			return parsed ? parsed.format(argument || DEFAULT_DATE_FORMAT) : value;
+		}
+		default:
+			throw new Error(`Unknown filter "${name}"`);
+	}
+}
+
+/**
+ * Evaluate every {{source | filter | ...}} expression in a template for one file
+ * Throws on unknown filters so the preview can report them
+ */
+export function evaluateTemplate(template: string, context: TemplateContext): string {
+	return template.replace(EXPRESSION_PATTERN, (match, expression: string) => {
+		const [source, ...filters] = expression.split('|');
+		let value = resolveSource(source ?? '', context);
+		for (const filter of filters) {
+			value = applyFilter(value, filter);
+		}
+		return value;
+	});
+}
+
+/**
+ * Convert an evaluated template to the value stored for the chosen property type
+ * Throws when a number property would not get a finite number, so the file is skipped
+ */
+export function coerceTemplateValue(value: string, propertyType: string): unknown {
+	if (propertyType === 'number') {
+		const number = value.trim() === '' ? NaN : Number(value);
+		if (!Number.isFinite(number)) {
+			throw new Error(`"${value}" is not a number`);
+		}
+		return number;
+	}
+	if (propertyType === 'checkbox') {
+		return value.toLowerCase() === 'true' || value === '1';
+	}
+	return value;
+}
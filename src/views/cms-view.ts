@@ -5,6 +5,7 @@
 import { BasesView, BasesEntry, QueryController, TFile } from 'obsidian';
 import { setCssProps } from '../utils/css-props';
 import type BasesCMSPlugin from '../main';
+import type { BulkMacro } from '../types';
 import { transformBasesEntries, type CardData, type CMSSettings } from '../shared/data-transform';
 import { readCMSSettings } from '../shared/settings-schema';
 import { getFirstBasesPropertyValue, getAllBasesImagePropertyValues } from '../utils/property';
@@ -16,6 +17,11 @@ import { PropertyToggleHandler } from '../utils/property-toggle-handler';
 import { ScrollLayoutManager } from '../utils/scroll-layout-manager';
 import { ViewSwitchListener } from '../utils/view-switch-listener';
 import { convertGifToStatic } from '../utils/image';
+import { getExpiredDate, isExpiredEntry } from '../utils/draft-status-badge';
+import { ExpiredEntriesModal } from '../components/expired-entries-modal';
+import { buildCopyEntries, getViewProperties, type CopyEntry } from '../utils/copy-formats';
+import { CopyAsModal } from '../components/copy-as-modal';
+import { SelectionSnapshot } from '../utils/selection-snapshot';
 
 export const CMS_VIEW_TYPE = 'bases-cms';
 
@@ -24,6 +30,10 @@ export class BasesCMSView extends BasesView {
 	private containerEl: HTMLElement;
 	private plugin: BasesCMSPlugin;
 	private selectedFiles: Set<string> = new Set();
+	/** Modification times of selected files when they were selected, for stale-write checks */
+	private selectionSnapshot = new SelectionSnapshot();
+	/** Modification times of the rendered cards */
+	private cardMtimes: Map<string, number> = new Map();
 	private snippets: Record<string, string> = {};
 	private images: Record<string, string | string[]> = {};
 	private hasImageAvailable: Record<string, boolean> = {};
@@ -37,6 +47,8 @@ export class BasesCMSView extends BasesView {
 	private viewSwitchListener: ViewSwitchListener | null = null;
 	private settingsPollInterval: number | null = null;
 	private lastSettings: Partial<CMSSettings> | null = null;
+	/** Expired entries already handled or declined this session, so they are not asked about on every render */
+	private handledExpiredPaths: Set<string> = new Set();
 
 	constructor(controller: QueryController, containerEl: HTMLElement, plugin: BasesCMSPlugin) {
 		super(controller);
@@ -96,6 +108,11 @@ export class BasesCMSView extends BasesView {
 			);
 		}
 
+		// Undo and redo write the selected files too; that is not an outside edit
+		this.register(this.plugin.bulkJournal.onReplay((paths) => {
+			this.selectionSnapshot.refresh(this.app, paths);
+		}));
+
 		try {
 		this.viewSwitchListener = new ViewSwitchListener(
 			this.containerEl,
@@ -161,6 +178,12 @@ export class BasesCMSView extends BasesView {
 				this.plugin.settings
 			);
 
+			// Keep the publish schedule in sync with the drafts shown in this view
+			this.plugin.scheduledPublisher.syncFromView(allEntries.map(entry => entry.file), settings);
+
+			// Move expired entries back to draft, or ask first
+			this.handleExpiredEntries(allEntries, settings);
+
 			// Update config reference in scroll layout manager if it's now available
 			if (this.config && typeof (this.config as { get?: (key: string) => unknown }).get === 'function') {
 				try {
@@ -545,7 +568,8 @@ export class BasesCMSView extends BasesView {
 					() => {
 						// Refresh view after deletion
 						this.onDataUpdated();
-					}
+					},
+					this.plugin.bulkJobRunner
 				);
 				modal.open();
 			} else {
@@ -555,13 +579,68 @@ export class BasesCMSView extends BasesView {
 					[filePath],
 					this.plugin.settings
 				);
-				await executeSmartDeletion(this.app, preview);
+				await executeSmartDeletion(this.app, preview, this.plugin.bulkJobRunner);
 				// Refresh view after deletion
 				this.onDataUpdated();
 			}
 		};
 	}
 
+	/**
+	 * Direct duplicate handler for context menu - duplicates a single file without selection
+	 */
+	private getDirectDuplicateHandler(filePath: string, settings: CMSSettings): () => Promise<void> {
+		return async () => {
+			const { BulkOperations } = await import('../utils/bulk-operations');
+			const bulkOps = new BulkOperations(this.app, this.plugin.bulkJournal, this.plugin.bulkJobRunner);
+			await bulkOps.duplicateFiles([filePath], this.plugin.settings, settings);
+			this.onDataUpdated();
+		};
+	}
+
+	/**
+	 * Copy as handler for context menu - copies the selection, or the clicked entry when nothing is selected
+	 */
+	private getDirectCopyAsHandler(entry: BasesEntry, settings: CMSSettings): () => void {
+		return () => {
+			if (this.selectedFiles.size > 0) {
+				this.copySelectionAs();
+				return;
+			}
+			new CopyAsModal(this.app, getViewProperties(settings), (properties) => this.getCopyEntries([entry], properties)).open();
+		};
+	}
+
+	/**
+	 * Move published entries past their expiry date back to draft, depending on the view's expired entries option
+	 */
+	private handleExpiredEntries(entries: BasesEntry[], settings: CMSSettings): void {
+		if (!settings.expiresAtProperty || settings.expiredAction === 'flag') return;
+
+		const expired = entries
+			.filter(entry => !this.handledExpiredPaths.has(entry.file.path) && isExpiredEntry(entry, settings))
+			.map(entry => ({ path: entry.file.path, expiredAt: getExpiredDate(entry, settings) ?? new Date() }));
+		if (expired.length === 0) return;
+
+		for (const entry of expired) {
+			this.handledExpiredPaths.add(entry.path);
+		}
+
+		// Runs as a bulk job, so the move is journaled and can be undone
+		const moveToDraft = async () => {
+			const { BulkOperations } = await import('../utils/bulk-operations');
+			const bulkOps = new BulkOperations(this.app, this.plugin.bulkJournal, this.plugin.bulkJobRunner);
+			await bulkOps.moveExpiredToDraft(expired.map(entry => entry.path), settings);
+			this.onDataUpdated();
+		};
+
+		if (settings.expiredAction === 'auto') {
+			void moveToDraft();
+		} else {
+			new ExpiredEntriesModal(this.app, expired, moveToDraft).open();
+		}
+	}
+
 	private renderCard(
 		container: HTMLElement,
 		card: CardData,
@@ -570,6 +649,7 @@ export class BasesCMSView extends BasesView {
 		settings: CMSSettings
 	): void {
 		const isSelected = this.selectedFiles.has(card.path);
+		this.cardMtimes.set(card.path, card.mtime);
 		return this.cardRenderer.renderCard(
 			container,
 			card,
@@ -583,7 +663,11 @@ export class BasesCMSView extends BasesView {
 			(path: string, property: string, value: unknown) => {
 				void this.handlePropertyToggle(path, property, value);
 			},
-			{ handleDelete: this.getDirectDeleteHandler(card.path) }
+			{
+				handleDelete: this.getDirectDeleteHandler(card.path),
+				handleDuplicate: this.getDirectDuplicateHandler(card.path, settings),
+				handleCopyAs: this.getDirectCopyAsHandler(entry, settings)
+			}
 		);
 	}
 
@@ -678,8 +762,10 @@ export class BasesCMSView extends BasesView {
 	private handleSelectionChange(path: string, selected: boolean): void {
 		if (selected) {
 			this.selectedFiles.add(path);
+			this.recordSelectionMtime(path);
 		} else {
 			this.selectedFiles.delete(path);
+			this.selectionSnapshot.forget(path);
 		}
 		
 		// Always update UI when selection changes - this will hide toolbar if selection is empty
@@ -701,9 +787,22 @@ export class BasesCMSView extends BasesView {
 		}
 	}
 
+	/**
+	 * Remember when a newly selected file was last modified, as shown on its card
+	 */
+	private recordSelectionMtime(path: string): void {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		const mtime = this.cardMtimes.get(path) ?? (file instanceof TFile ? file.stat.mtime : undefined);
+		if (mtime !== undefined) {
+			this.selectionSnapshot.record(path, mtime);
+		}
+	}
+
 	private async handlePropertyToggle(path: string, property: string, value: unknown): Promise<void> {
 		if (this.propertyToggleHandler) {
 		await this.propertyToggleHandler.handlePropertyToggle(path, property, value);
+		// Toggling a property on a card is not an outside edit
+		this.selectionSnapshot.refresh(this.app, [{ path }]);
 		}
 	}
 
@@ -711,8 +810,9 @@ export class BasesCMSView extends BasesView {
 		const cards = this.containerEl.querySelectorAll('.bases-cms-card');
 		cards.forEach((cardEl) => {
 			const path = cardEl.getAttribute('data-path');
-			if (path) {
+			if (path && !this.selectedFiles.has(path)) {
 				this.selectedFiles.add(path);
+				this.recordSelectionMtime(path);
 			}
 		});
 		this.updateSelectionUI();
@@ -720,9 +820,79 @@ export class BasesCMSView extends BasesView {
 
 	private deselectAll(): void {
 		this.selectedFiles.clear();
+		this.selectionSnapshot.clear();
 		this.updateSelectionUI();
 	}
 
+	/**
+	 * Whether this view has selected items (used by command palette entries)
+	 */
+	hasSelection(): boolean {
+		return this.selectedFiles.size > 0;
+	}
+
+	/**
+	 * Run a macro against the current selection
+	 */
+	runMacro(macro: BulkMacro): void {
+		if (!this.bulkToolbar || this.selectedFiles.size === 0) return;
+		const settings = readCMSSettings(
+			this.config,
+			this.plugin.settings
+		);
+		void this.bulkToolbar.getActions().handleRunMacro(macro, settings);
+	}
+
+	/**
+	 * Selected entries in the view's sort order (group by group)
+	 */
+	private getSelectedEntries(): BasesEntry[] {
+		if (!this.data?.groupedData) return [];
+		return this.data.groupedData
+			.flatMap(group => group.entries)
+			.filter(entry => this.selectedFiles.has(entry.file.path));
+	}
+
+	/**
+	 * Open the copy as dialog for the current selection
+	 */
+	copySelectionAs(): void {
+		if (!this.bulkToolbar || this.selectedFiles.size === 0) return;
+		const settings = readCMSSettings(
+			this.config,
+			this.plugin.settings
+		);
+		this.bulkToolbar.getActions().handleCopyAs(settings);
+	}
+
+	/**
+	 * Selected entries in the view's sort order, with property values resolved like cards
+	 */
+	private getSelectedCopyEntries(properties: string[]): CopyEntry[] {
+		return this.getCopyEntries(this.getSelectedEntries(), properties);
+	}
+
+	/**
+	 * Entries with property values resolved like cards
+	 */
+	private getCopyEntries(entries: BasesEntry[], properties: string[]): CopyEntry[] {
+		if (entries.length === 0) return [];
+		const settings = readCMSSettings(
+			this.config,
+			this.plugin.settings
+		);
+		const cards = transformBasesEntries(
+			entries,
+			settings,
+			this.getSortMethod(),
+			false,
+			this.snippets,
+			this.images,
+			this.hasImageAvailable
+		);
+		return buildCopyEntries(entries, cards, properties, settings);
+	}
+
 	/**
 	 * Refresh the toolbar when settings change
 	 * Called from settings tab when toolbar button visibility settings are updated
@@ -784,6 +954,7 @@ export class BasesCMSView extends BasesView {
 					() => Array.from(this.selectedFiles),
 					() => {
 						this.selectedFiles.clear();
+						this.selectionSnapshot.clear();
 						this.updateSelectionUI();
 					},
 					() => {
@@ -834,7 +1005,12 @@ export class BasesCMSView extends BasesView {
 						// Select all callback
 						this.selectAll();
 					},
-					settings
+					settings,
+					// Every entry in the base, for tag management
+					() => (this.data?.data ?? []).map(entry => entry.file.path),
+					(properties) => this.getSelectedCopyEntries(properties),
+					this.selectionSnapshot,
+					() => this.getSelectedEntries().map(entry => entry.file.path)
 				);
 			} else {
 				// Update settings if toolbar already exists
@@ -876,6 +1052,7 @@ export class BasesCMSView extends BasesView {
 		}
 		// Clean up selection and toolbar when view closes
 		this.selectedFiles.clear();
+		this.selectionSnapshot.clear();
 		const orphanedToolbars = document.querySelectorAll('.bases-cms-bulk-toolbar');
 		orphanedToolbars.forEach(toolbar => toolbar.remove());
 		
@@ -49,7 +49,7 @@ export class SharedCardRenderer {
 		isSelected: boolean,
 		onSelect: (path: string, selected: boolean) => void,
 		onPropertyToggle?: (path: string, property: string, value: unknown) => void | Promise<void>,
-		toolbarActions?: { handleDelete: () => Promise<void> }
+		toolbarActions?: { handleDelete: () => Promise<void>; handleDuplicate?: () => Promise<void>; handleCopyAs?: () => void }
 	): void {
 		// Create card element
 		const cardEl = container.createDiv('card bases-cms-card');
@@ -169,9 +169,29 @@ export class SharedCardRenderer {
 				// Trigger file-menu event - this allows other plugins to add their items
 				this.app.workspace.trigger('file-menu', menu, file, 'bases');
 				
-				// Add Delete at the bottom (after all file-menu subscriptions have run)
+				// Add Copy as, Duplicate and Delete at the bottom (after all file-menu subscriptions have run)
 				// Always show Delete option - toolbarActions should always be provided
 				menu.addSeparator();
+				if (toolbarActions?.handleCopyAs) {
+					const handleCopyAs = toolbarActions.handleCopyAs;
+					menu.addItem((item) => {
+						item.setTitle('Copy as...');
+						item.setIcon('clipboard-copy');
+						item.onClick(() => {
+							handleCopyAs();
+						});
+					});
+				}
+				if (toolbarActions?.handleDuplicate) {
+					const handleDuplicate = toolbarActions.handleDuplicate;
+					menu.addItem((item) => {
+						item.setTitle('Duplicate');
+						item.setIcon('copy-plus');
+						item.onClick(async () => {
+							await handleDuplicate();
+						});
+					});
+				}
 				menu.addItem((item) => {
 					item.setTitle('Delete');
 					item.setIcon('trash-2');